@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DEFAULT_MOCK_DELAY_MS, MOCK_SCENARIOS, isMockScenario, mockResponse } from '@/lib/ou/mock-upstream';
+import { MOCK_UPSTREAM_ENABLED } from '@/lib/ou/upstream-guard';
+
+// Longest a "timeout" request is held open when the client never gives up
+const MAX_HANG_MS = 60000;
+
+const notFound = () => new NextResponse('Not Found', { status: 404 });
+
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>((resolve) => {
+  const timer = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => {
+    clearTimeout(timer);
+    resolve();
+  });
+});
+
+/**
+ * Lists the scenarios, so the mock URL to paste into the app is easy to find.
+ */
+export function GET(req: NextRequest) {
+  if (!MOCK_UPSTREAM_ENABLED) {
+    return notFound();
+  }
+  const base = `${req.nextUrl.origin}${req.nextUrl.pathname}`;
+  return NextResponse.json(Object.entries(MOCK_SCENARIOS).map(([scenario, description]) => ({
+    scenario,
+    description,
+    url: `${base}?scenario=${scenario}`,
+  })));
+}
+
+/**
+ * Answers like the OU results page: a form post with `htno`, replied to with
+ * the page (or failure) of the `scenario` query parameter, "mixed" by default.
+ */
+export async function POST(req: NextRequest) {
+  if (!MOCK_UPSTREAM_ENABLED) {
+    return notFound();
+  }
+
+  const scenario = req.nextUrl.searchParams.get('scenario') || 'mixed';
+  if (!isMockScenario(scenario)) {
+    return new NextResponse(`Unknown scenario "${scenario}"`, { status: 400 });
+  }
+
+  const form = await req.formData().catch(() => null);
+  const htno = String(form?.get('htno') ?? '').trim();
+  const delay = Number(req.nextUrl.searchParams.get('delay') ?? DEFAULT_MOCK_DELAY_MS);
+  const response = mockResponse(scenario, htno, Number.isFinite(delay) && delay >= 0 ? delay : DEFAULT_MOCK_DELAY_MS);
+
+  await wait(response.delayMs ?? MAX_HANG_MS, req.signal);
+
+  return new NextResponse(response.html, {
+    status: response.status,
+    headers: { 'Content-Type': 'text/html; charset=windows-1252', ...response.headers },
+  });
+}
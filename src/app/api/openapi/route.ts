@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { buildOpenApiDocument } from '@/lib/ou/openapi';
+
+export const dynamic = 'force-static';
+
+export function GET() {
+  return NextResponse.json(buildOpenApiDocument());
+}
@@ -0,0 +1,124 @@
+import { NextRequest } from "next/server";
+import {
+  DEFAULT_CONCURRENCY,
+  MAX_BATCH_SIZE,
+  MAX_CONCURRENCY,
+  runWithConcurrency,
+} from '@/lib/ou/batch';
+import { withResultCache } from '@/lib/ou/cache';
+import { checkUpstreamUrl } from '@/lib/ou/upstream-guard';
+import { expandHtnoRange, rangeSize } from '@/lib/ou/htno';
+import { clientKey, takeRateLimitToken } from '@/lib/ou/rate-limit';
+import { BatchLineSchema, BatchRequestSchema, describeRequestError, type BatchLine } from '@/lib/ou/schema';
+import {
+  DEFAULT_RETRIES,
+  MAX_RETRIES,
+  describeFetchError,
+  fetchStudentResultWithRetry,
+} from '@/lib/ou/upstream';
+import { errorResponse } from '../responses';
+
+/**
+ * Fetches a whole range (or list) of hall tickets and streams one NDJSON line
+ * per student as soon as its result is available:
+ *   {"htno":"...","data":{...},"cached":false}   on success
+ *   {"htno":"...","code":"...","message":"..."} when the upstream fetch failed after all retries
+ * A NOT_FOUND page is a result, not a failure, so it comes as a data line.
+ * Failure lines carry "retryAfter" (seconds) when the portal reported itself busy.
+ */
+export async function POST(req: NextRequest) {
+  const parsed = BatchRequestSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    const { code, message } = describeRequestError(parsed.error);
+    return errorResponse(code, message);
+  }
+  const { url, start, end, htnos: list, concurrency, retries, refresh } = parsed.data;
+
+  const rejection = await checkUpstreamUrl(url);
+  if (rejection) {
+    return errorResponse(rejection.code, rejection.message);
+  }
+
+  // Size the batch before expanding a range: a range can span every
+  // 12-digit number, far too many to hold in memory. The schema guarantees
+  // start and end when there is no list.
+  const size = list ? list.length : rangeSize(start!, end!);
+  if (size < 1) {
+    return errorResponse('INVALID_REQUEST', "At least one hall ticket number is required");
+  }
+  if (size > MAX_BATCH_SIZE) {
+    return errorResponse('BATCH_TOO_LARGE', `A batch must contain between 1 and ${MAX_BATCH_SIZE} hall ticket numbers`);
+  }
+  const htnos = list ?? expandHtnoRange(start!, end!);
+
+  // Every hall ticket is an upstream fetch, so the batch is charged for each
+  const rateLimit = takeRateLimitToken(clientKey(req), htnos.length);
+  if (!rateLimit.allowed) {
+    return errorResponse('RATE_LIMITED', "Too many requests. Please slow down and try again shortly.", rateLimit.retryAfter);
+  }
+
+  const limit = Math.min(concurrency ?? DEFAULT_CONCURRENCY, MAX_CONCURRENCY);
+  const retryCount = Math.min(retries ?? DEFAULT_RETRIES, MAX_RETRIES);
+
+  // Set when the client goes away, so the lanes stop taking hall tickets and
+  // the fetches in flight are aborted instead of retried
+  let cancelled = false;
+  const stop = new AbortController();
+  const cancel = () => {
+    cancelled = true;
+    stop.abort();
+  };
+  req.signal.addEventListener('abort', cancel);
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (line: BatchLine) => {
+        if (cancelled) {
+          return;
+        }
+        // Never stream a line that breaks the published contract
+        const checked = BatchLineSchema.safeParse(line);
+        if (!checked.success) {
+          console.error('Batch line does not match the API contract:', checked.error.issues);
+        }
+        const body = checked.success
+          ? checked.data
+          : { htno: line.htno, code: 'INTERNAL_ERROR', message: "The server produced an invalid result." };
+        controller.enqueue(encoder.encode(JSON.stringify(body) + '\n'));
+      };
+
+      await runWithConcurrency(htnos, limit, async (htno) => {
+        if (cancelled) {
+          return;
+        }
+        try {
+          const { data, cached } = await withResultCache(
+            url,
+            htno,
+            refresh === true,
+            () => fetchStudentResultWithRetry(url, htno, retryCount, stop.signal)
+          );
+          send({ htno, data, cached });
+        } catch (e: any) {
+          const { code, message, retryAfter } = describeFetchError(e);
+          send({ htno, code, message, retryAfter });
+        }
+      }, stop.signal);
+
+      if (!cancelled) {
+        controller.close();
+      }
+    },
+    cancel() {
+      cancel();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
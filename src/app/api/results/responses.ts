@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import type { z } from 'zod';
+import { ERROR_CODES, type ApiError, type ResultErrorCode } from '@/lib/ou/errors';
+
+/**
+ * Builds an error response in the shared envelope, with the HTTP status
+ * that belongs to the code and a Retry-After header when one is given.
+ */
+export function errorResponse(code: ResultErrorCode, message: string, retryAfter?: number) {
+  const body: ApiError = retryAfter ? { code, message, retryAfter } : { code, message };
+  return NextResponse.json(body, {
+    status: ERROR_CODES[code].status,
+    headers: retryAfter ? { 'Retry-After': String(retryAfter) } : undefined,
+  });
+}
+
+/**
+ * Checks an outgoing body against the API contract before sending it, so a
+ * parser change can never leak a response that breaks the published schema.
+ */
+export function contractResponse<T>(schema: z.ZodType<T>, body: T) {
+  const checked = schema.safeParse(body);
+  if (!checked.success) {
+    console.error('Response does not match the API contract:', checked.error.issues);
+    return errorResponse('INTERNAL_ERROR', "The server produced an invalid response.");
+  }
+  return NextResponse.json(checked.data);
+}
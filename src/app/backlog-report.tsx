@@ -0,0 +1,144 @@
+"use client"
+
+import { useMemo, useState } from 'react'
+import { Button } from "@/components/ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { FileSpreadsheet, FileIcon as FilePdf } from 'lucide-react'
+import * as XLSX from 'xlsx'
+import saveAs from 'file-saver'
+import type { StudentResult } from '@/lib/ou/schema'
+import { buildBacklogReport, buildBacklogWorkbook, gradeLabel, renderBacklogPdf } from '@/lib/ou/backlogs'
+
+interface BacklogReportProps {
+  results: StudentResult[];
+}
+
+export default function BacklogReport({ results }: BacklogReportProps) {
+  const [view, setView] = useState<'student' | 'subject'>('student')
+  const report = useMemo(() => buildBacklogReport(results), [results])
+
+  const downloadExcel = () => {
+    const excelBuffer = XLSX.write(buildBacklogWorkbook(report), { bookType: 'xlsx', type: 'array' });
+    const data = new Blob([excelBuffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+
+    saveAs(data, "backlogs.xlsx");
+  }
+
+  const downloadPDF = () => {
+    renderBacklogPdf(report).save("backlogs.pdf");
+  }
+
+  return (
+    <Card className="mb-6 md:mb-8 shadow-lg border-border bg-card">
+      <CardHeader className="pb-4">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <CardTitle className="text-xl md:text-2xl font-semibold text-card-foreground">Backlogs</CardTitle>
+            <CardDescription className="text-muted-foreground">
+              Subjects graded F or Ab, for the supplementary exam registration
+            </CardDescription>
+          </div>
+          {report.students.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              <Button
+                type="button"
+                size="sm"
+                variant={view === 'student' ? 'default' : 'outline'}
+                onClick={() => setView('student')}
+              >
+                By Student
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant={view === 'subject' ? 'default' : 'outline'}
+                onClick={() => setView('subject')}
+              >
+                By Subject
+              </Button>
+              <Button onClick={downloadExcel} variant="outline" size="sm" className="border-chart-2/30 text-chart-2 hover:bg-chart-2/10 hover:border-chart-2">
+                <FileSpreadsheet className="mr-2 h-4 w-4" />
+                Excel
+              </Button>
+              <Button onClick={downloadPDF} variant="outline" size="sm" className="border-destructive/30 text-destructive hover:bg-destructive/10 hover:border-destructive">
+                <FilePdf className="mr-2 h-4 w-4" />
+                PDF
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {report.students.length === 0 ? (
+          <p className="text-sm text-primary font-medium">No backlogs in these results.</p>
+        ) : view === 'student' ? (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-border">
+                  <TableHead className="text-muted-foreground py-2 px-3">Hall Ticket No.</TableHead>
+                  <TableHead className="text-muted-foreground py-2 px-3">Name</TableHead>
+                  <TableHead className="text-muted-foreground py-2 px-3">Backlog Subjects</TableHead>
+                  <TableHead className="text-muted-foreground py-2 px-3">Credits Lost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.students.map(student => (
+                  <TableRow key={student.htno} className="border-border">
+                    <TableCell className="text-card-foreground py-2 px-3 align-top">{student.htno}</TableCell>
+                    <TableCell className="text-card-foreground py-2 px-3 align-top">{student.name}</TableCell>
+                    <TableCell className="text-card-foreground py-2 px-3">
+                      <ul className="space-y-1">
+                        {student.subjects.map(subject => (
+                          <li key={subject.code} className="text-sm">
+                            <span className="font-medium">{subject.code}</span> {subject.name}{' '}
+                            <span className="text-destructive">({gradeLabel(subject.grade)})</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </TableCell>
+                    <TableCell className="text-destructive font-medium py-2 px-3 align-top">{student.creditsLost}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {report.subjects.map(subject => (
+              <div key={subject.code} className="space-y-2">
+                <h3 className="font-semibold text-card-foreground">
+                  {subject.code} - {subject.name}
+                  <span className="ml-3 text-sm font-normal text-muted-foreground">
+                    {subject.credits} credits · {subject.students.length} students
+                  </span>
+                </h3>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="border-border">
+                        <TableHead className="text-muted-foreground py-2 px-3">Hall Ticket No.</TableHead>
+                        <TableHead className="text-muted-foreground py-2 px-3">Name</TableHead>
+                        <TableHead className="text-muted-foreground py-2 px-3">Grade</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {subject.students.map(student => (
+                        <TableRow key={student.htno} className="border-border">
+                          <TableCell className="text-card-foreground py-2 px-3">{student.htno}</TableCell>
+                          <TableCell className="text-card-foreground py-2 px-3">{student.name}</TableCell>
+                          <TableCell className="text-destructive font-medium py-2 px-3">{gradeLabel(student.grade)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
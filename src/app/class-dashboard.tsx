@@ -0,0 +1,103 @@
+"use client"
+
+import { useMemo } from 'react'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import type { StudentResult } from '@/lib/ou/schema'
+import { summarizeResults } from '@/lib/ou/stats'
+
+interface ClassDashboardProps {
+  results: StudentResult[];
+}
+
+const formatGpa = (value: number | null) => (value === null ? '-' : value.toFixed(2))
+
+function StatTile({ label, value, className = '' }: { label: string; value: string | number; className?: string }) {
+  return (
+    <div className="rounded-lg border border-border p-3 md:p-4">
+      <p className="text-xs md:text-sm text-muted-foreground">{label}</p>
+      <p className={`text-xl md:text-2xl font-semibold text-card-foreground ${className}`}>{value}</p>
+    </div>
+  )
+}
+
+export default function ClassDashboard({ results }: ClassDashboardProps) {
+  const summary = useMemo(() => summarizeResults(results), [results])
+  const largestBand = Math.max(1, ...summary.sgpaBands.map(band => band.count))
+
+  return (
+    <Card className="mb-6 md:mb-8 shadow-lg border-border bg-card">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-xl md:text-2xl font-semibold text-card-foreground">Class Summary</CardTitle>
+        <CardDescription className="text-muted-foreground">
+          Pass percentage is calculated over students who appeared (absent students excluded)
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
+          <StatTile label="Appeared" value={summary.appeared} />
+          <StatTile label="Passed" value={summary.passed} className="text-primary" />
+          <StatTile label="Failed" value={summary.failed} className="text-destructive" />
+          <StatTile label="Promoted" value={summary.promoted} />
+          <StatTile label="Absent" value={summary.absent} />
+          <StatTile label="Not Found" value={summary.notFound} />
+          <StatTile
+            label="Pass %"
+            value={summary.passPercentage === null ? '-' : `${summary.passPercentage.toFixed(1)}%`}
+            className="text-primary"
+          />
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-3">
+            <h3 className="font-semibold text-card-foreground">SGPA Distribution</h3>
+            {summary.sgpaBands.map(band => (
+              <div key={band.label} className="flex items-center gap-3 text-sm">
+                <span className="w-16 text-muted-foreground">{band.label}</span>
+                <div className="flex-1 h-4 bg-muted rounded">
+                  <div
+                    className="h-4 bg-primary rounded"
+                    style={{ width: `${(band.count / largestBand) * 100}%` }}
+                  />
+                </div>
+                <span className="w-8 text-right text-card-foreground">{band.count}</span>
+              </div>
+            ))}
+            <div className="grid grid-cols-2 gap-3 pt-2">
+              <StatTile label="Average / Median SGPA" value={`${formatGpa(summary.averageSgpa)} / ${formatGpa(summary.medianSgpa)}`} />
+              <StatTile label="Average / Median CGPA" value={`${formatGpa(summary.averageCgpa)} / ${formatGpa(summary.medianCgpa)}`} />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="font-semibold text-card-foreground">Top {summary.topStudents.length} Students</h3>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-border">
+                    <TableHead className="text-muted-foreground py-2 px-3">#</TableHead>
+                    <TableHead className="text-muted-foreground py-2 px-3">Hall Ticket No.</TableHead>
+                    <TableHead className="text-muted-foreground py-2 px-3">Name</TableHead>
+                    <TableHead className="text-muted-foreground py-2 px-3">SGPA</TableHead>
+                    <TableHead className="text-muted-foreground py-2 px-3">CGPA</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summary.topStudents.map((student, index) => (
+                    <TableRow key={student.personalDetails?.hallTicketNo || `top-${index}`} className="border-border">
+                      <TableCell className="text-card-foreground py-2 px-3">{index + 1}</TableCell>
+                      <TableCell className="text-card-foreground py-2 px-3">{student.personalDetails?.hallTicketNo}</TableCell>
+                      <TableCell className="text-card-foreground py-2 px-3">{student.personalDetails?.name}</TableCell>
+                      <TableCell className="text-card-foreground py-2 px-3">{formatGpa(student.result?.sgpaValue ?? null)}</TableCell>
+                      <TableCell className="text-card-foreground py-2 px-3">{formatGpa(student.result?.cgpaValue ?? null)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,249 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { Pencil, Plus, Trash2 } from 'lucide-react'
+import { describeExam, loadExamCatalog, saveExamCatalog, type Exam } from '@/lib/exam-catalog'
+import { isValidHtno } from '@/lib/ou/htno'
+import { ResultResponseSchema } from '@/lib/ou/schema'
+import { alternateUrl } from '@/lib/ou/urls'
+import { createId } from '@/lib/utils'
+
+interface ExamCatalogProps {
+  onSelect: (url: string) => void;
+}
+
+interface TestStatus {
+  state: 'testing' | 'ok' | 'warning' | 'failed';
+  message: string;
+}
+
+const emptyExam = (): Exam => ({
+  id: '',
+  name: '',
+  course: '',
+  semester: '',
+  examType: 'regular',
+  url: '',
+  sampleHtno: '',
+})
+
+const fieldClass = "h-10 text-sm bg-input border-border focus:border-ring focus:ring-ring"
+
+export default function ExamCatalog({ onSelect }: ExamCatalogProps) {
+  const [exams, setExams] = useState<Exam[]>([])
+  const [selectedId, setSelectedId] = useState('')
+  const [draft, setDraft] = useState<Exam>(emptyExam())
+  const [formError, setFormError] = useState<string | null>(null)
+  const [testStatus, setTestStatus] = useState<Record<string, TestStatus>>({})
+
+  useEffect(() => {
+    setExams(loadExamCatalog())
+  }, [])
+
+  const updateExams = (next: Exam[]) => {
+    setExams(next)
+    saveExamCatalog(next)
+  }
+
+  const selectExam = (id: string) => {
+    setSelectedId(id)
+    const exam = exams.find(e => e.id === id)
+    if (exam) {
+      onSelect(exam.url)
+    }
+  }
+
+  const saveDraft = () => {
+    if (!draft.name.trim() || !draft.url.trim()) {
+      setFormError("Name and result URL are required.")
+      return
+    }
+    try {
+      new URL(draft.url)
+    } catch {
+      setFormError("Please enter a valid result URL.")
+      return
+    }
+    if (draft.sampleHtno && !isValidHtno(draft.sampleHtno)) {
+      setFormError("The sample hall ticket must be exactly 12 digits.")
+      return
+    }
+
+    const exam = { ...draft, id: draft.id || createId() }
+    updateExams(draft.id ? exams.map(e => (e.id === exam.id ? exam : e)) : [...exams, exam])
+    if (exam.id === selectedId) {
+      onSelect(exam.url)
+    }
+    setDraft(emptyExam())
+    setFormError(null)
+  }
+
+  const deleteExam = (id: string) => {
+    updateExams(exams.filter(e => e.id !== id))
+    if (id === selectedId) {
+      setSelectedId('')
+    }
+  }
+
+  const fetchSample = async (url: string, htno: string) => {
+    const response = await fetch('/api/results', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url, htno, refresh: true })
+    })
+    const body = await response.json().catch(() => null)
+    // The page was fetched and parsed; it just has no result for this hall ticket
+    if (body?.code === 'NOT_FOUND') {
+      return { status: 'NOT_FOUND' as const }
+    }
+    if (!response.ok) {
+      throw new Error(body?.message || `HTTP error! status: ${response.status}`)
+    }
+    return ResultResponseSchema.parse(body).data
+  }
+
+  const testExam = async (exam: Exam) => {
+    if (!isValidHtno(exam.sampleHtno)) {
+      setTestStatus(prev => ({ ...prev, [exam.id]: { state: 'failed', message: 'Add a sample hall ticket to test this URL.' } }))
+      return
+    }
+
+    setTestStatus(prev => ({ ...prev, [exam.id]: { state: 'testing', message: 'Testing...' } }))
+
+    const report = (url: string, data: Awaited<ReturnType<typeof fetchSample>>): TestStatus => {
+      const moved = url !== exam.url ? ` (only works as ${url}; URL updated)` : ''
+      if (data.status !== 'FOUND') {
+        return { state: 'failed', message: `Page reachable, but ${exam.sampleHtno} was not found${moved}` }
+      }
+      // The page answered, but not in the layout the parser knows
+      if (data.degraded) {
+        const issues = data.layoutIssues?.map(issue => issue.message).join('; ')
+        return { state: 'warning', message: `Page reachable, but it could not be read completely: ${issues}${moved}` }
+      }
+      return { state: 'ok', message: `Page parsed: ${data.personalDetails?.name || exam.sampleHtno}${moved}` }
+    }
+
+    // alternateUrl leaves http URLs unchanged; no point testing them twice
+    const urls = Array.from(new Set([exam.url, alternateUrl(exam.url)]))
+    for (const url of urls) {
+      try {
+        const data = await fetchSample(url, exam.sampleHtno)
+        if (url !== exam.url) {
+          updateExams(exams.map(e => (e.id === exam.id ? { ...e, url } : e)))
+          if (exam.id === selectedId) {
+            onSelect(url)
+          }
+        }
+        setTestStatus(prev => ({ ...prev, [exam.id]: report(url, data) }))
+        return
+      } catch (error) {
+        setTestStatus(prev => ({
+          ...prev,
+          [exam.id]: { state: 'failed', message: error instanceof Error ? error.message : 'Request failed' }
+        }))
+      }
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="exam" className="text-sm font-medium text-card-foreground flex items-center gap-2">
+        <span className="w-2 h-2 bg-chart-3 rounded-full"></span>
+        Exam
+      </Label>
+      <div className="flex gap-2">
+        <select
+          id="exam"
+          value={selectedId}
+          onChange={(e) => selectExam(e.target.value)}
+          className="flex-1 h-12 rounded-md border border-border bg-input px-3 text-base text-card-foreground"
+        >
+          <option value="">Custom URL</option>
+          {exams.map(exam => (
+            <option key={exam.id} value={exam.id}>{describeExam(exam)}</option>
+          ))}
+        </select>
+        <Dialog>
+          <DialogTrigger asChild>
+            <Button type="button" variant="outline" className="h-12 border-border">
+              Manage Exams
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-[95vw] md:max-w-3xl max-h-[90vh] overflow-y-auto bg-card border-border">
+            <DialogHeader>
+              <DialogTitle className="text-xl text-card-foreground">Exam Catalog</DialogTitle>
+            </DialogHeader>
+
+            <div className="space-y-3">
+              {exams.length === 0 && (
+                <p className="text-sm text-muted-foreground">No exams yet. Add one below to pick it from the dropdown next time.</p>
+              )}
+              {exams.map(exam => (
+                <div key={exam.id} className="rounded-lg border border-border p-3 space-y-2">
+                  <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-medium text-card-foreground">{describeExam(exam)}</p>
+                      <p className="text-xs text-muted-foreground break-all">{exam.url}</p>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <Button type="button" size="sm" variant="outline" onClick={() => testExam(exam)} disabled={testStatus[exam.id]?.state === 'testing'}>
+                        Test URL
+                      </Button>
+                      <Button type="button" size="sm" variant="outline" onClick={() => setDraft(exam)} aria-label="Edit exam">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button type="button" size="sm" variant="outline" onClick={() => deleteExam(exam.id)} aria-label="Delete exam">
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </div>
+                  {testStatus[exam.id] && (
+                    <p className={`text-xs ${testStatus[exam.id].state === 'failed' ? 'text-destructive' : testStatus[exam.id].state === 'warning' ? 'text-chart-4' : testStatus[exam.id].state === 'ok' ? 'text-primary' : 'text-muted-foreground'}`}>
+                      {testStatus[exam.id].message}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="border-t border-border pt-4 space-y-3">
+              <h3 className="font-semibold text-card-foreground">{draft.id ? 'Edit Exam' : 'Add Exam'}</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <Input placeholder="Name, e.g. B.E. Main July 2025" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={fieldClass} />
+                <Input placeholder="Course, e.g. B.E.(CSE)" value={draft.course} onChange={(e) => setDraft({ ...draft, course: e.target.value })} className={fieldClass} />
+                <Input placeholder="Semester, e.g. 4" value={draft.semester} onChange={(e) => setDraft({ ...draft, semester: e.target.value })} className={fieldClass} />
+                <select
+                  aria-label="Exam type"
+                  value={draft.examType}
+                  onChange={(e) => setDraft({ ...draft, examType: e.target.value as Exam['examType'] })}
+                  className="h-10 rounded-md border border-border bg-input px-3 text-sm text-card-foreground"
+                >
+                  <option value="regular">Regular</option>
+                  <option value="supplementary">Supplementary</option>
+                </select>
+                <Input placeholder="Result URL" value={draft.url} onChange={(e) => setDraft({ ...draft, url: e.target.value })} className={`${fieldClass} md:col-span-2`} />
+                <Input placeholder="Sample hall ticket (for Test URL)" value={draft.sampleHtno} onChange={(e) => setDraft({ ...draft, sampleHtno: e.target.value })} className={fieldClass} />
+              </div>
+              {formError && <p className="text-sm text-destructive">{formError}</p>}
+              <div className="flex gap-2">
+                <Button type="button" onClick={saveDraft}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  {draft.id ? 'Save Changes' : 'Add Exam'}
+                </Button>
+                {draft.id && (
+                  <Button type="button" variant="outline" onClick={() => { setDraft(emptyExam()); setFormError(null) }}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+"use client"
+
+import { useState } from 'react'
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { formatCodes, parseCodes, resetCodeTable, saveCodeTable } from '@/lib/htno-code-table'
+import { DEFAULT_CODE_TABLE, type HtnoCodeTable } from '@/lib/ou/htno-codes'
+
+interface HtnoCodeEditorProps {
+  codes: HtnoCodeTable;
+  onChange: (codes: HtnoCodeTable) => void;
+}
+
+const textareaClass = "flex w-full rounded-md border px-3 py-2 text-sm font-mono bg-input border-border focus:border-ring focus:ring-ring focus-visible:outline-none"
+
+export default function HtnoCodeEditor({ codes, onChange }: HtnoCodeEditorProps) {
+  const [open, setOpen] = useState(false)
+  const [colleges, setColleges] = useState('')
+  const [branches, setBranches] = useState('')
+  const [formError, setFormError] = useState<string | null>(null)
+
+  const openEditor = (next: boolean) => {
+    if (next) {
+      setColleges(formatCodes(codes.colleges))
+      setBranches(formatCodes(codes.branches))
+      setFormError(null)
+    }
+    setOpen(next)
+  }
+
+  const save = () => {
+    const parsedColleges = parseCodes(colleges, 4)
+    const parsedBranches = parseCodes(branches, 3)
+    const invalid = [...parsedColleges.invalid, ...parsedBranches.invalid]
+    if (invalid.length > 0) {
+      setFormError(`Use one "code = name" per line (4-digit college codes, 3-digit branch codes): ${invalid.slice(0, 3).join(', ')}`)
+      return
+    }
+
+    const next = { colleges: parsedColleges.codes, branches: parsedBranches.codes }
+    saveCodeTable(next)
+    onChange(next)
+    setOpen(false)
+  }
+
+  const reset = () => {
+    resetCodeTable()
+    onChange(DEFAULT_CODE_TABLE)
+    setOpen(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={openEditor}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" className="h-10 border-border">
+          Edit Codes
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-[95vw] md:max-w-2xl max-h-[90vh] overflow-y-auto bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="text-xl text-card-foreground">College and Branch Codes</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-muted-foreground">
+          Names shown when grouping by college or branch. Codes not listed are still grouped, just without a name. Saved in this browser.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="collegeCodes" className="text-sm font-medium text-card-foreground">Colleges</Label>
+            <textarea
+              id="collegeCodes"
+              rows={8}
+              placeholder="1601 = Chaitanya Bharathi Institute of Technology"
+              value={colleges}
+              onChange={(e) => setColleges(e.target.value)}
+              className={textareaClass}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="branchCodes" className="text-sm font-medium text-card-foreground">Branches</Label>
+            <textarea
+              id="branchCodes"
+              rows={8}
+              placeholder="733 = Computer Science and Engineering"
+              value={branches}
+              onChange={(e) => setBranches(e.target.value)}
+              className={textareaClass}
+            />
+          </div>
+        </div>
+        {formError && <p className="text-sm text-destructive">{formError}</p>}
+        <div className="flex gap-2">
+          <Button type="button" onClick={save}>
+            Save Codes
+          </Button>
+          <Button type="button" variant="outline" onClick={reset}>
+            Restore Defaults
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,206 @@
+"use client"
+
+import { useEffect, useMemo, useState } from 'react'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { FileSpreadsheet, Save, Trash2 } from 'lucide-react'
+import * as XLSX from 'xlsx'
+import saveAs from 'file-saver'
+import type { StudentResult } from '@/lib/ou/schema'
+import { diffResults } from '@/lib/ou/diff'
+import { loadSnapshots, saveSnapshots, type ResultSnapshot } from '@/lib/snapshots'
+import { createId } from '@/lib/utils'
+
+interface ResultComparisonProps {
+  results: StudentResult[];
+  url: string;
+}
+
+const kindLabel = {
+  changed: 'Changed',
+  added: 'New in this fetch',
+  removed: 'Missing from this fetch',
+}
+
+export default function ResultComparison({ results, url }: ResultComparisonProps) {
+  const [snapshots, setSnapshots] = useState<ResultSnapshot[]>([])
+  const [snapshotName, setSnapshotName] = useState('')
+  const [compareId, setCompareId] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setSnapshots(loadSnapshots())
+  }, [])
+
+  const baseline = snapshots.find(snapshot => snapshot.id === compareId)
+  const diffs = useMemo(
+    () => (baseline ? diffResults(baseline.results, results) : []),
+    [baseline, results]
+  )
+
+  const updateSnapshots = (next: ResultSnapshot[]) => {
+    try {
+      saveSnapshots(next)
+      setSnapshots(next)
+      setError(null)
+    } catch (e) {
+      console.error('Error saving snapshots:', e)
+      setError("Unable to save the snapshot. Browser storage may be full; delete an old snapshot and try again.")
+    }
+  }
+
+  const saveSnapshot = () => {
+    const createdAt = new Date().toISOString()
+    updateSnapshots([
+      ...snapshots,
+      {
+        id: createId(),
+        name: snapshotName.trim() || `Snapshot ${new Date(createdAt).toLocaleString()}`,
+        url,
+        createdAt,
+        results,
+      },
+    ])
+    setSnapshotName('')
+  }
+
+  const deleteSnapshot = (id: string) => {
+    updateSnapshots(snapshots.filter(snapshot => snapshot.id !== id))
+    if (id === compareId) {
+      setCompareId('')
+    }
+  }
+
+  const downloadChangeReport = () => {
+    const rows = diffs.flatMap(diff =>
+      diff.changes.length > 0
+        ? diff.changes.map(change => ({
+            'Hall Ticket No': diff.htno,
+            'Name': diff.name,
+            'Change': kindLabel[diff.kind],
+            'Field': change.field,
+            'Before': change.before,
+            'After': change.after
+          }))
+        : [{
+            'Hall Ticket No': diff.htno,
+            'Name': diff.name,
+            'Change': kindLabel[diff.kind],
+            'Field': '',
+            'Before': '',
+            'After': ''
+          }]
+    )
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows), "Changes");
+
+    const excelBuffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+    const data = new Blob([excelBuffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+
+    saveAs(data, "result_changes.xlsx");
+  }
+
+  return (
+    <Card className="mb-6 md:mb-8 shadow-lg border-border bg-card">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-xl md:text-2xl font-semibold text-card-foreground">Compare with a Snapshot</CardTitle>
+        <CardDescription className="text-muted-foreground">
+          Save this fetch as a snapshot, then compare a later fetch of the same exam to see grades that changed after revaluation
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col md:flex-row gap-2">
+          <Input
+            placeholder="Snapshot name, e.g. Before revaluation"
+            value={snapshotName}
+            onChange={(e) => setSnapshotName(e.target.value)}
+            className="h-10 md:max-w-sm bg-input border-border"
+          />
+          <Button onClick={saveSnapshot} variant="outline" className="h-10 border-border">
+            <Save className="mr-2 h-4 w-4" />
+            Save Snapshot
+          </Button>
+          <select
+            aria-label="Snapshot to compare with"
+            value={compareId}
+            onChange={(e) => setCompareId(e.target.value)}
+            className="h-10 flex-1 rounded-md border border-border bg-card px-3 text-sm text-card-foreground"
+          >
+            <option value="">Compare with...</option>
+            {snapshots.map(snapshot => (
+              <option key={snapshot.id} value={snapshot.id}>
+                {snapshot.name} ({snapshot.results.length} rows, {new Date(snapshot.createdAt).toLocaleDateString()})
+              </option>
+            ))}
+          </select>
+          {baseline && (
+            <Button onClick={() => deleteSnapshot(baseline.id)} variant="outline" className="h-10 border-border" aria-label="Delete snapshot">
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {baseline && baseline.url !== url && (
+          <p className="text-sm text-muted-foreground">
+            Note: this snapshot was taken from a different URL ({baseline.url}).
+          </p>
+        )}
+
+        {baseline && (
+          diffs.length === 0 ? (
+            <p className="text-sm text-primary font-medium">No changes since &quot;{baseline.name}&quot;.</p>
+          ) : (
+            <div className="space-y-3">
+              <div className="flex justify-between items-center">
+                <p className="text-sm font-medium text-card-foreground">{diffs.length} students changed since &quot;{baseline.name}&quot;</p>
+                <Button onClick={downloadChangeReport} variant="outline" size="sm" className="border-chart-2/30 text-chart-2 hover:bg-chart-2/10 hover:border-chart-2">
+                  <FileSpreadsheet className="mr-2 h-4 w-4" />
+                  Change Report
+                </Button>
+              </div>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-border">
+                      <TableHead className="text-muted-foreground py-2 px-3">Hall Ticket No.</TableHead>
+                      <TableHead className="text-muted-foreground py-2 px-3">Name</TableHead>
+                      <TableHead className="text-muted-foreground py-2 px-3">Changes</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {diffs.map(diff => (
+                      <TableRow key={diff.htno} className="border-border">
+                        <TableCell className="text-card-foreground py-2 px-3 align-top">{diff.htno}</TableCell>
+                        <TableCell className="text-card-foreground py-2 px-3 align-top">{diff.name}</TableCell>
+                        <TableCell className="text-card-foreground py-2 px-3">
+                          {diff.changes.length === 0 ? (
+                            <span className="text-muted-foreground">{kindLabel[diff.kind]}</span>
+                          ) : (
+                            <ul className="space-y-1">
+                              {diff.changes.map(change => (
+                                <li key={change.field} className="text-sm">
+                                  <span className="font-medium">{change.field}:</span>{' '}
+                                  <span className="text-destructive line-through">{change.before || '-'}</span>{' '}
+                                  <span className="text-primary">{change.after || '-'}</span>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,105 @@
+"use client"
+
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import type { SemesterResult } from '@/lib/ou/schema'
+
+interface SemesterHistoryProps {
+  history: SemesterResult[];
+  compact?: boolean;
+}
+
+const CHART_WIDTH = 320
+const CHART_HEIGHT = 120
+const CHART_PADDING = 20
+
+function SgpaTrendChart({ history }: { history: SemesterResult[] }) {
+  const points = history
+    .map((entry, index) => ({ index, semester: entry.semester, sgpa: entry.sgpaValue }))
+    .filter((point): point is { index: number; semester: string; sgpa: number } => point.sgpa !== null)
+
+  if (points.length < 2) {
+    return null
+  }
+
+  // SGPA lives on a 0-10 scale; zoom in on the band the student actually moved in
+  const min = Math.max(0, Math.floor(Math.min(...points.map(p => p.sgpa))) - 1)
+  const max = Math.min(10, Math.ceil(Math.max(...points.map(p => p.sgpa))) + 1)
+  const x = (index: number) =>
+    CHART_PADDING + (index / Math.max(history.length - 1, 1)) * (CHART_WIDTH - 2 * CHART_PADDING)
+  const y = (sgpa: number) =>
+    CHART_HEIGHT - CHART_PADDING - ((sgpa - min) / (max - min)) * (CHART_HEIGHT - 2 * CHART_PADDING)
+
+  const path = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.index)},${y(p.sgpa)}`).join(' ')
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      className="w-full max-w-md h-auto"
+      role="img"
+      aria-label="SGPA trend by semester"
+    >
+      <line
+        x1={CHART_PADDING}
+        y1={CHART_HEIGHT - CHART_PADDING}
+        x2={CHART_WIDTH - CHART_PADDING}
+        y2={CHART_HEIGHT - CHART_PADDING}
+        className="stroke-border"
+      />
+      <path d={path} fill="none" strokeWidth={2} className="stroke-primary" />
+      {points.map(p => (
+        <g key={p.index}>
+          <circle cx={x(p.index)} cy={y(p.sgpa)} r={3} className="fill-primary" />
+          <text x={x(p.index)} y={y(p.sgpa) - 8} textAnchor="middle" className="fill-card-foreground text-[10px]">
+            {p.sgpa.toFixed(2)}
+          </text>
+          <text x={x(p.index)} y={CHART_HEIGHT - 6} textAnchor="middle" className="fill-muted-foreground text-[10px]">
+            {p.semester}
+          </text>
+        </g>
+      ))}
+    </svg>
+  )
+}
+
+export default function SemesterHistory({ history, compact = false }: SemesterHistoryProps) {
+  if (history.length === 0) {
+    return null
+  }
+
+  const cellClass = `${compact ? 'text-xs ' : ''}text-card-foreground py-3 px-4`
+  const headClass = `${compact ? 'text-xs ' : ''}text-muted-foreground py-3 px-4`
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader className={compact ? "pb-2" : undefined}>
+        <CardTitle className={`${compact ? 'text-base' : 'text-lg'} text-card-foreground`}>Semester History</CardTitle>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="px-4 pb-4">
+          <SgpaTrendChart history={history} />
+        </div>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="border-border">
+                <TableHead className={headClass}>Semester</TableHead>
+                <TableHead className={headClass}>Result with SGPA</TableHead>
+                <TableHead className={headClass}>CGPA</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {history.map((entry, index) => (
+                <TableRow key={`semester-${index}`} className="border-border h-12">
+                  <TableCell className={cellClass}>{entry.semester}</TableCell>
+                  <TableCell className={`${cellClass} ${entry.outcome === 'passed' ? '' : 'text-destructive'}`}>{entry.sgpa}</TableCell>
+                  <TableCell className={cellClass}>{entry.cgpa || '-'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
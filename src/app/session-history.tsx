@@ -0,0 +1,105 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Check, FolderOpen, Pencil, Trash2, X } from 'lucide-react'
+import { listSessions, type FetchSession } from '@/lib/sessions'
+
+interface SessionHistoryProps {
+  currentId: string | null;
+  // Bumped by the parent whenever sessions change, to reload the list
+  version: number;
+  disabled: boolean;
+  onOpen: (session: FetchSession) => void;
+  onRename: (session: FetchSession, name: string) => void;
+  onDelete: (session: FetchSession) => void;
+}
+
+export default function SessionHistory({ currentId, version, disabled, onOpen, onRename, onDelete }: SessionHistoryProps) {
+  const [sessions, setSessions] = useState<FetchSession[]>([])
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [newName, setNewName] = useState('')
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch(error => console.error('Error loading sessions:', error))
+  }, [version])
+
+  if (sessions.length === 0) {
+    return null
+  }
+
+  const startRename = (session: FetchSession) => {
+    setRenamingId(session.id)
+    setNewName(session.name)
+  }
+
+  const confirmRename = (session: FetchSession) => {
+    if (newName.trim()) {
+      onRename(session, newName.trim())
+    }
+    setRenamingId(null)
+  }
+
+  return (
+    <Card className="mb-6 md:mb-8 shadow-lg border-border bg-card">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-xl md:text-2xl font-semibold text-card-foreground">Saved Sessions</CardTitle>
+        <CardDescription className="text-muted-foreground">
+          Every fetch is saved in this browser. Reopen a past run without fetching it again.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2 max-h-80 overflow-y-auto">
+        {sessions.map(session => (
+          <div
+            key={session.id}
+            className={`flex flex-col md:flex-row md:items-center justify-between gap-2 rounded-lg border p-3 ${session.id === currentId ? 'border-primary' : 'border-border'}`}
+          >
+            <div className="min-w-0 flex-1">
+              {renamingId === session.id ? (
+                <div className="flex gap-2">
+                  <Input
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && confirmRename(session)}
+                    className="h-9 bg-input border-border"
+                    autoFocus
+                  />
+                  <Button size="sm" variant="outline" onClick={() => confirmRename(session)} aria-label="Save name">
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setRenamingId(null)} aria-label="Cancel rename">
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <p className="font-medium text-card-foreground truncate">{session.name}</p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {new Date(session.createdAt).toLocaleString()} · {session.results.length} of {session.htnos.length} fetched
+                {session.failures.length > 0 && ` · ${session.failures.length} failed`}
+                {session.status === 'running' && ' · in progress'}
+                {session.status === 'interrupted' && ' · interrupted'}
+              </p>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <Button size="sm" variant="outline" disabled={disabled} onClick={() => onOpen(session)}>
+                <FolderOpen className="mr-2 h-4 w-4" />
+                Open
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => startRename(session)} aria-label="Rename session">
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button size="sm" variant="outline" disabled={disabled && session.id === currentId} onClick={() => onDelete(session)} aria-label="Delete session">
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,65 @@
+"use client"
+
+import { ERROR_CODES, type ResultErrorCode } from '@/lib/ou/errors'
+import type { StudentResult } from '@/lib/ou/schema'
+
+interface StatusBadgeProps {
+  result?: StudentResult;
+  failure?: { code?: ResultErrorCode; message: string };
+  showHint?: boolean;
+}
+
+const outcomeLabels = {
+  passed: 'Passed',
+  failed: 'Failed',
+  promoted: 'Promoted',
+  absent: 'Absent',
+  withheld: 'Withheld',
+}
+
+const tones = {
+  good: 'bg-primary/10 text-primary border-primary/30',
+  bad: 'bg-destructive/10 text-destructive border-destructive/30',
+  neutral: 'bg-muted text-muted-foreground border-border',
+}
+
+function describeStatus({ result, failure }: StatusBadgeProps): { label: string; tone: keyof typeof tones; hint?: string } {
+  if (failure) {
+    const info = ERROR_CODES[failure.code ?? 'INTERNAL_ERROR']
+    return { label: info.label, tone: 'bad', hint: `${failure.message} ${info.hint}` }
+  }
+  if (result?.status === 'NOT_FOUND') {
+    return { label: ERROR_CODES.NOT_FOUND.label, tone: 'neutral', hint: ERROR_CODES.NOT_FOUND.hint }
+  }
+  if (result?.degraded) {
+    const issues = (result.layoutIssues ?? []).map(issue => issue.message).join('; ')
+    return { label: 'Incomplete', tone: 'bad', hint: `The page did not match the expected layout: ${issues}.` }
+  }
+  const outcome = result?.result?.outcome
+  if (!outcome) {
+    return { label: 'Found', tone: 'neutral' }
+  }
+  return { label: outcomeLabels[outcome], tone: outcome === 'passed' ? 'good' : outcome === 'promoted' ? 'neutral' : 'bad' }
+}
+
+/**
+ * A row's status: the pass outcome for a fetched result, or what went wrong
+ * for a not-found, incompletely parsed or failed hall ticket, with its explanation.
+ */
+export default function StatusBadge(props: StatusBadgeProps) {
+  const { label, tone, hint } = describeStatus(props)
+
+  return (
+    <span className="inline-flex flex-col gap-1">
+      <span
+        title={hint}
+        className={`inline-flex w-fit items-center rounded-full border px-2 py-0.5 text-xs font-medium ${tones[tone]}`}
+      >
+        {label}
+      </span>
+      {props.showHint && hint && (
+        <span className="text-xs text-muted-foreground">{hint}</span>
+      )}
+    </span>
+  )
+}
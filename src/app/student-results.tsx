@@ -1,92 +1,369 @@
 "use client"
 
-import { useState } from 'react'
+import { Fragment, useEffect, useMemo, useRef, useState, type ChangeEvent } from 'react'
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Label } from "@/components/ui/label"
-import { Download, FileSpreadsheet, FileIcon as FilePdf } from 'lucide-react'
+import { ArrowDown, ArrowUp, ArrowUpDown, Download, FileSpreadsheet, FileArchive, FileIcon as FilePdf, FolderOpen, RotateCw } from 'lucide-react'
 import * as XLSX from 'xlsx'
 import saveAs from 'file-saver'
 import jsPDF from 'jspdf'
 import 'jspdf-autotable'
+import { readNdjson } from '@/lib/ndjson'
+import { deleteSession, listSessions, putSession, remainingHtnos, type FetchSession } from '@/lib/sessions'
+import { createId } from '@/lib/utils'
+import { MAX_BATCH_SIZE } from '@/lib/ou/batch'
+import type { ResultErrorCode } from '@/lib/ou/errors'
+import { BatchLineSchema, type StudentResult } from '@/lib/ou/schema'
+import { EXPORT_FORMATS, PDF_RESULT_COLUMNS, collectSubjects, columnCells, exportResults, type ExportFormat } from '@/lib/ou/export'
+import { importResults } from '@/lib/ou/import'
+import { EMPTY_FILTERS, filterResults, hasActiveFilters, sortResults, type OutcomeFilter, type ResultFilters, type SortKey, type SortState } from '@/lib/ou/filters'
+import { buildGradeCardZip } from '@/lib/ou/grade-card'
+import { expandHtnoRange, extractHtnosFromRows, isValidHtno, parseHtnoList, resolveHtnos, validateHtnoRange } from '@/lib/ou/htno'
+import { groupResults, type ClassSummary, type GroupBy } from '@/lib/ou/stats'
+import { loadCodeTable } from '@/lib/htno-code-table'
+import { DEFAULT_CODE_TABLE, type HtnoCodeTable } from '@/lib/ou/htno-codes'
+import SemesterHistory from './semester-history'
+import ClassDashboard from './class-dashboard'
+import BacklogReport from './backlog-report'
+import ExamCatalog from './exam-catalog'
+import HtnoCodeEditor from './htno-code-editor'
+import ResultComparison from './result-comparison'
+import SessionHistory from './session-history'
+import StatusBadge from './status-badge'
 
-interface StudentResult {
-  status: 'FOUND' | 'NOT_FOUND';
-  message?: string;
-  personalDetails?: {
-    hallTicketNo: string;
-    name: string;
-    fatherName: string;
-    gender: string;
-    course: string;
-  };
-  marks?: Array<{
-    subCode: string;
-    subjectName: string;
-    credits: string;
-    gradePoints: string;
-    gradeSecurity: string;
-  }>;
-  result?: {
-    semester: string;
-    sgpa: string;
-    cgpa: string;
-  };
+const MAX_BUSY_RETRIES = 3
+// Batch lines arrive several a second, so session writes are grouped
+const SESSION_SAVE_DELAY_MS = 1000
+
+interface FetchFailure {
+  htno: string;
+  code?: ResultErrorCode;
+  message: string;
 }
 
 export default function StudentResults() {
   const [startRollNo, setStartRollNo] = useState('')
   const [endRollNo, setEndRollNo] = useState('')
+  const [inputMode, setInputMode] = useState<'range' | 'list'>('range')
+  const [htnoList, setHtnoList] = useState('')
+  const [excludeList, setExcludeList] = useState('')
   const [url, setUrl] = useState('')
   const [results, setResults] = useState<StudentResult[]>([])
+  const [failures, setFailures] = useState<FetchFailure[]>([])
+  const [cachedCount, setCachedCount] = useState(0)
+  const [forceRefresh, setForceRefresh] = useState(false)
+  const [generatingCards, setGeneratingCards] = useState(false)
+  const [groupBy, setGroupBy] = useState<GroupBy | 'none'>('none')
+  const [codeTable, setCodeTable] = useState<HtnoCodeTable>(DEFAULT_CODE_TABLE)
+  const [filters, setFilters] = useState<ResultFilters>(EMPTY_FILTERS)
+  const [sort, setSort] = useState<SortState | null>(null)
+  const [sessionId, setSessionId] = useState<string | null>(null)
+  const [sessionsVersion, setSessionsVersion] = useState(0)
+  const sessionRef = useRef<FetchSession | null>(null)
+  const sessionSaveRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const resumeCheckedRef = useRef(false)
+  const openFileRef = useRef<HTMLInputElement>(null)
+
+  const subjects = useMemo(() => collectSubjects(results), [results])
+  // The table and every export work from the filtered, sorted view
+  const visibleResults = useMemo(
+    () => sortResults(filterResults(results, filters), sort),
+    [results, filters, sort]
+  )
+  const groups = useMemo(
+    () => (groupBy === 'none' ? null : groupResults(visibleResults, groupBy, codeTable)),
+    [visibleResults, groupBy, codeTable]
+  )
+  const orderedResults = groups ? groups.flatMap(group => group.results) : visibleResults
+  const filtersActive = hasActiveFilters(filters)
+  const degradedResults = useMemo(() => results.filter(result => result.degraded), [results])
+  const layoutIssues = useMemo(
+    () => Array.from(new Set(degradedResults.flatMap(result => (result.layoutIssues ?? []).map(issue => issue.message)))),
+    [degradedResults]
+  )
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  const validateRollNo = (rollNo: string) => {
-    return /^\d{12}$/.test(rollNo)
+  const streamBatch = async (body: object) => {
+    let response: Response;
+    for (let attempt = 0; ; attempt++) {
+      response = await fetch('/api/results/batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+
+      // Slow down when the server or the portal asks us to, instead of failing
+      const retryAfter = parseInt(response.headers.get('Retry-After') || '', 10);
+      if ((response.status === 429 || response.status === 503) && retryAfter > 0 && attempt < MAX_BUSY_RETRIES) {
+        setError(`The server is busy. Retrying in ${retryAfter} seconds...`);
+        await new Promise(resolve => setTimeout(resolve, retryAfter * 1000));
+        setError(null);
+        continue;
+      }
+      break;
+    }
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.message || `HTTP error! status: ${response.status}`);
+    }
+
+    const addFailure = (failure: FetchFailure) => {
+      setFailures(prev => [...prev, failure]);
+      updateSession(session => ({ ...session, failures: [...session.failures, failure] }));
+    }
+
+    await readNdjson<unknown>(response, (raw) => {
+      const parsed = BatchLineSchema.safeParse(raw);
+      if (!parsed.success) {
+        console.error('Unexpected batch line:', raw, parsed.error.issues);
+        const htno = (raw as { htno?: unknown } | null)?.htno;
+        if (typeof htno === 'string') {
+          addFailure({ htno, code: 'INTERNAL_ERROR', message: 'The server sent a result that does not match the API contract.' });
+        }
+        return;
+      }
+      const line = parsed.data;
+      if ('data' in line) {
+        // Rows from pages without personal details still carry the hall ticket asked for
+        const data = line.data.personalDetails?.hallTicketNo
+          ? line.data
+          : {
+            ...line.data,
+            personalDetails: { name: '', fatherName: '', gender: '', course: '', ...line.data.personalDetails, hallTicketNo: line.htno }
+          };
+        setResults(prev => [...prev, data]);
+        updateSession(session => ({
+          ...session,
+          results: [...session.results, data],
+          fetchedHtnos: [...session.fetchedHtnos, line.htno]
+        }));
+        if (line.cached) {
+          setCachedCount(prev => prev + 1);
+        }
+        return;
+      }
+      addFailure({ htno: line.htno, code: line.code, message: line.message });
+    });
   }
 
-  const normalizeUrl = (inputUrl: string) => {
-    const baseUrl = inputUrl.includes('www.') 
-      ? inputUrl 
-      : inputUrl.replace('https://', 'https://www.');
-    return baseUrl;
+  const cancelSessionSave = () => {
+    if (sessionSaveRef.current) {
+      clearTimeout(sessionSaveRef.current);
+      sessionSaveRef.current = null;
+    }
   }
 
-  const fetchResultWithFallback = async (htno: string, inputUrl: string) => {
-    try {
-      const urls = [
-        inputUrl,
-        inputUrl.includes('www.') ? inputUrl.replace('www.', '') : inputUrl.replace('https://', 'https://www.')
-      ];
-
-      for (const url of urls) {
-        try {
-          const response = await fetch('/api/results', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ url, htno })
-          });
-
-          if (response.ok) {
-            return await response.json();
-          }
-        } catch (error) {
-          continue;
+  // Writes the current session now, including any update still waiting
+  const saveSession = async () => {
+    cancelSessionSave();
+    if (!sessionRef.current) {
+      return;
+    }
+    await putSession(sessionRef.current).catch(error => console.error('Error saving session:', error));
+  }
+
+  const updateSession = (update: (session: FetchSession) => FetchSession) => {
+    if (!sessionRef.current) {
+      return;
+    }
+    sessionRef.current = update(sessionRef.current);
+    if (!sessionSaveRef.current) {
+      sessionSaveRef.current = setTimeout(saveSession, SESSION_SAVE_DELAY_MS);
+    }
+  }
+
+  // A stream that stopped early leaves hall tickets with neither a result nor
+  // a failure; they are recorded as failures so "Retry Failed" can reach them
+  const finishSession = async () => {
+    const session = sessionRef.current;
+    const missed = session ? remainingHtnos(session) : [];
+    if (missed.length > 0) {
+      const missedFailures = missed.map(htno => ({
+        htno,
+        code: 'INTERNAL_ERROR' as const,
+        message: 'The fetch stopped before this hall ticket was fetched.'
+      }));
+      setFailures(prev => [...prev, ...missedFailures]);
+      updateSession(current => ({ ...current, failures: [...current.failures, ...missedFailures], status: 'interrupted' }));
+    } else {
+      updateSession(current => ({ ...current, status: 'complete' }));
+    }
+    await saveSession();
+    setSessionsVersion(prev => prev + 1);
+  }
+
+  const openSession = (session: FetchSession) => {
+    sessionRef.current = session;
+    setSessionId(session.id);
+    setUrl(session.url);
+    setResults(session.results);
+    setFailures(session.failures);
+    setCachedCount(0);
+    setError(null);
+  }
+
+  const resumeSession = async (session: FetchSession) => {
+    openSession(session);
+    const htnos = remainingHtnos(session);
+
+    if (htnos.length > 0) {
+      setLoading(true);
+      try {
+        await streamBatch({ url: session.url, htnos });
+      } catch (error) {
+        console.error('Error resuming fetch:', error);
+        setError("Failed to resume the previous fetch. Please try again.");
+      }
+      setLoading(false);
+    }
+
+    await finishSession();
+  }
+
+  const renameSession = (session: FetchSession, name: string) => {
+    if (session.id === sessionRef.current?.id) {
+      updateSession(current => ({ ...current, name }));
+      saveSession().then(() => setSessionsVersion(prev => prev + 1));
+      return;
+    }
+    putSession({ ...session, name })
+      .then(() => setSessionsVersion(prev => prev + 1))
+      .catch(error => console.error('Error renaming session:', error));
+  }
+
+  const removeSession = (session: FetchSession) => {
+    if (session.id === sessionRef.current?.id) {
+      cancelSessionSave();
+      sessionRef.current = null;
+      setSessionId(null);
+    }
+    deleteSession(session.id)
+      .then(() => setSessionsVersion(prev => prev + 1))
+      .catch(error => console.error('Error deleting session:', error));
+  }
+
+  // Saved in the browser, so read after mounting
+  useEffect(() => {
+    setCodeTable(loadCodeTable())
+  }, [])
+
+  // Pick up a run that was still in progress when the page was reloaded
+  useEffect(() => {
+    if (resumeCheckedRef.current) {
+      return;
+    }
+    resumeCheckedRef.current = true;
+
+    listSessions()
+      .then(sessions => {
+        const running = sessions.find(session => session.status === 'running');
+        if (running) {
+          resumeSession(running);
         }
+      })
+      .catch(error => console.error('Error loading sessions:', error));
+  }, [])
+
+  const importHtnoFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    try {
+      const workbook = XLSX.read(await file.arrayBuffer());
+      const sheet = workbook.Sheets[workbook.SheetNames[0]];
+      const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false });
+      const htnos = extractHtnosFromRows(rows);
+
+      if (htnos.length === 0) {
+        setError(`No 12-digit hall ticket numbers found in ${file.name}.`);
+        return;
       }
-      throw new Error('Failed to fetch results from all URLs');
+
+      setHtnoList(prev => [prev.trim(), htnos.join('\n')].filter(Boolean).join('\n'));
+      setError(null);
     } catch (error) {
-      throw error;
+      console.error('Error reading hall ticket file:', error);
+      setError(`Unable to read ${file.name}. Please upload a CSV or Excel file.`);
     }
   }
 
+  const openResultsFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    try {
+      const imported = importResults(await file.arrayBuffer(), file.name);
+      if (imported.length === 0) {
+        setError(`No results found in ${file.name}.`);
+        return;
+      }
+
+      // An opened file is not a fetch, so it is kept out of the saved sessions
+      sessionRef.current = null;
+      setSessionId(null);
+      setResults(imported);
+      setFailures([]);
+      setCachedCount(0);
+      setError(null);
+    } catch (error) {
+      console.error('Error opening results file:', error);
+      setError(`Unable to open ${file.name}: ${error instanceof Error ? error.message : 'unknown error'}. Please choose a file exported from this app.`);
+    }
+  }
+
+  const buildBatchRequest = (): { request: { start: string; end: string } | { htnos: string[] }; htnos: string[] } | null => {
+    if (inputMode === 'range') {
+      if (!isValidHtno(startRollNo) || !isValidHtno(endRollNo)) {
+        setError("Please enter valid 12-digit roll numbers.");
+        return null;
+      }
+      const rangeError = validateHtnoRange(startRollNo, endRollNo);
+      if (rangeError) {
+        setError(`${rangeError}. Use the list mode to fetch hall tickets from different sections.`);
+        return null;
+      }
+      return {
+        request: { start: startRollNo, end: endRollNo },
+        htnos: expandHtnoRange(startRollNo, endRollNo)
+      };
+    }
+
+    const included = parseHtnoList(htnoList);
+    const excluded = parseHtnoList(excludeList);
+    const invalid = [...included.invalid, ...excluded.invalid];
+    if (invalid.length > 0) {
+      setError(`Invalid hall ticket numbers or ranges: ${invalid.slice(0, 5).join(', ')}${invalid.length > 5 ? ', ...' : ''}`);
+      return null;
+    }
+
+    const htnos = resolveHtnos(included.htnos, excluded.htnos);
+    if (htnos.length === 0) {
+      setError("Please enter at least one hall ticket number.");
+      return null;
+    }
+    if (htnos.length > MAX_BATCH_SIZE) {
+      setError(`Please fetch at most ${MAX_BATCH_SIZE} hall ticket numbers at a time.`);
+      return null;
+    }
+
+    return { request: { htnos }, htnos };
+  }
+
   const fetchResults = async () => {
-    if (!validateRollNo(startRollNo) || !validateRollNo(endRollNo)) {
-      setError("Please enter valid 12-digit roll numbers.");
+    const batchRequest = buildBatchRequest();
+    if (!batchRequest) {
       return;
     }
 
@@ -97,66 +374,150 @@ export default function StudentResults() {
 
     setLoading(true);
     setResults([]);
+    setFailures([]);
+    setCachedCount(0);
     setError(null);
 
-    const start = parseInt(startRollNo);
-    const end = parseInt(endRollNo);
+    const now = new Date().toISOString();
+    const { htnos } = batchRequest;
+    sessionRef.current = {
+      id: createId(),
+      name: `${htnos[0]}${htnos.length > 1 ? ` - ${htnos[htnos.length - 1]}` : ''} (${new Date(now).toLocaleString()})`,
+      url,
+      htnos,
+      fetchedHtnos: [],
+      results: [],
+      failures: [],
+      status: 'running',
+      createdAt: now,
+      updatedAt: now,
+    };
+    setSessionId(sessionRef.current.id);
+    putSession(sessionRef.current)
+      .then(() => setSessionsVersion(prev => prev + 1))
+      .catch(error => console.error('Error saving session:', error));
 
-    for (let rollNo = start; rollNo <= end; rollNo++) {
-      try {
-        const data = await fetchResultWithFallback(
-          rollNo.toString().padStart(12, '0'),
-          normalizeUrl(url)
-        );
-        setResults(prev => [...prev, data.data]);
-      } catch (error) {
-        console.error('Error fetching results:', error);
-        setError(`Failed to fetch results for roll number ${rollNo}. Please try again.`);
-        break;
-      }
+    try {
+      await streamBatch({
+        url,
+        ...batchRequest.request,
+        refresh: forceRefresh,
+      });
+    } catch (error) {
+      console.error('Error fetching results:', error);
+      setError("Failed to fetch results. Please try again.");
+    }
+
+    await finishSession();
+    setLoading(false);
+  }
+
+  const retryFailed = async () => {
+    const htnos = failures.map(failure => failure.htno);
+    if (htnos.length === 0) {
+      return;
+    }
+
+    setLoading(true);
+    setFailures([]);
+    updateSession(session => ({ ...session, failures: [], status: 'running' }));
+    setError(null);
+
+    try {
+      await streamBatch({ url, htnos, refresh: forceRefresh });
+    } catch (error) {
+      console.error('Error retrying failed results:', error);
+      setError("Failed to retry results. Please try again.");
     }
 
+    await finishSession();
     setLoading(false);
   }
 
-  const getSgpaColor = (sgpa: string) => {
-    if (sgpa.includes('PASSED')) {
+  const updateFilter = <K extends keyof ResultFilters>(key: K, value: ResultFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  }
+
+  // Ascending, then descending, then back to fetch order
+  const toggleSort = (key: SortKey) => {
+    setSort(prev => {
+      if (prev?.key !== key) {
+        return { key, direction: 'asc' };
+      }
+      return prev.direction === 'asc' ? { key, direction: 'desc' } : null;
+    });
+  }
+
+  const renderSortHeader = (key: SortKey, label: string) => {
+    const Icon = sort?.key !== key ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown;
+    return (
+      <TableHead className="font-semibold text-muted-foreground py-4 px-6">
+        <button
+          type="button"
+          onClick={() => toggleSort(key)}
+          className="inline-flex items-center gap-1 hover:text-card-foreground"
+        >
+          {label}
+          <Icon className={`h-4 w-4 ${sort?.key === key ? 'text-primary' : 'opacity-50'}`} />
+        </button>
+      </TableHead>
+    );
+  }
+
+  const getSgpaColor = (result: StudentResult['result']) => {
+    if (result?.outcome === 'passed') {
+      return 'text-primary'
+    }
+    return 'text-destructive'
+  }
+
+  const getCgpaColor = (result: StudentResult['result']) => {
+    if (result?.cgpaValue != null) {
       return 'text-primary'
     }
     return 'text-destructive'
   }
 
-  const downloadExcel = () => {
-    const worksheet = XLSX.utils.json_to_sheet(results.map(result => ({
-      'Hall Ticket No': result.personalDetails?.hallTicketNo,
-      'Name': result.personalDetails?.name,
-      'Father\'s Name': result.personalDetails?.fatherName,
-      'Gender': result.personalDetails?.gender,
-      'Course': result.personalDetails?.course,
-      'SGPA': result.result?.sgpa,
-      'CGPA': result.result?.cgpa
-    })));
-
-    const workbook = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(workbook, worksheet, "Results");
-
-    const excelBuffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
-    const data = new Blob([excelBuffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
-    
-    saveAs(data, "student_results.xlsx");
+  const describeSubtotal = (summary: ClassSummary) => {
+    const average = summary.averageSgpa === null ? '-' : summary.averageSgpa.toFixed(2);
+    return `${summary.total} students · ${summary.passed} passed · ${summary.failed} failed · ${summary.absent} absent · avg SGPA ${average}`;
+  }
+
+  const downloadResults = (format: ExportFormat) => {
+    const subtotals = groups
+      ? [{
+          name: "Subtotals",
+          rows: groups.map(group => ({
+            'Group': group.label,
+            'Students': group.summary.total,
+            'Appeared': group.summary.appeared,
+            'Passed': group.summary.passed,
+            'Failed': group.summary.failed,
+            'Absent': group.summary.absent,
+            'Pass %': group.summary.passPercentage === null ? '' : Number(group.summary.passPercentage.toFixed(1)),
+            'Average SGPA': group.summary.averageSgpa === null ? '' : Number(group.summary.averageSgpa.toFixed(2))
+          }))
+        }]
+      : [];
+
+    const { mimeType, fileSuffix } = EXPORT_FORMATS[format];
+    const data = new Blob([exportResults(orderedResults, format, subtotals)], { type: mimeType });
+
+    saveAs(data, `student_results${fileSuffix}`);
   }
 
   const downloadPDF = () => {
     const doc = new jsPDF();
     doc.text("Student Results", 14, 15);
 
-    const tableColumn = ["Hall Ticket No", "Name", "SGPA", "CGPA"];
-    const tableRows = results.map(result => [
-      result.personalDetails?.hallTicketNo,
-      result.personalDetails?.name,
-      result.result?.sgpa,
-      result.result?.cgpa
-    ]);
+    const tableColumn = PDF_RESULT_COLUMNS.map(column => column.header);
+    const toRow = (result: StudentResult) => columnCells(result, PDF_RESULT_COLUMNS);
+    const tableRows = groups
+      ? groups.flatMap(group => [
+          [{ content: `${group.label} (${describeSubtotal(group.summary)})`, colSpan: tableColumn.length, styles: { fontStyle: 'bold', fillColor: [240, 240, 240] } }],
+          ...group.results.map(toRow)
+        ])
+      : visibleResults.map(toRow);
 
     (doc as any).autoTable({
       head: [tableColumn],
@@ -167,6 +528,18 @@ export default function StudentResults() {
     doc.save("student_results.pdf");
   }
 
+  const downloadGradeCards = async () => {
+    setGeneratingCards(true);
+    try {
+      const zip = await buildGradeCardZip(visibleResults);
+      saveAs(zip, "grade_cards.zip");
+    } catch (error) {
+      console.error('Error generating grade cards:', error);
+      setError("Failed to generate grade cards. Please try again.");
+    }
+    setGeneratingCards(false);
+  }
+
   return (
     <div className="min-h-screen bg-background">
       <div className="container mx-auto px-4 py-6 md:py-8 lg:py-12">
@@ -197,37 +570,77 @@ export default function StudentResults() {
               Enter Details
             </CardTitle>
             <CardDescription className="text-muted-foreground">
-              Provide the range of hall ticket numbers and the results URL
+              Provide the hall ticket numbers (a range or a list) and the results URL
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
+            <ExamCatalog onSelect={setUrl} />
+
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                size="sm"
+                variant={inputMode === 'range' ? 'default' : 'outline'}
+                onClick={() => setInputMode('range')}
+              >
+                Range
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant={inputMode === 'list' ? 'default' : 'outline'}
+                onClick={() => setInputMode('list')}
+              >
+                List / Multiple Ranges
+              </Button>
+            </div>
+
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 md:gap-6">
-              <div className="space-y-2">
-                <Label htmlFor="startRollNo" className="text-sm font-medium text-card-foreground flex items-center gap-2">
-                  <span className="w-2 h-2 bg-chart-1 rounded-full"></span>
-                  Starting Roll No.
-                </Label>
-                <Input
-                  id="startRollNo"
-                  placeholder="e.g., 245521733150"
-                  value={startRollNo}
-                  onChange={(e) => setStartRollNo(e.target.value)}
-                  className="h-12 text-base bg-input border-border focus:border-ring focus:ring-ring"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="endRollNo" className="text-sm font-medium text-card-foreground flex items-center gap-2">
-                  <span className="w-2 h-2 bg-chart-2 rounded-full"></span>
-                  Ending Roll No.
-                </Label>
-                <Input
-                  id="endRollNo"
-                  placeholder="e.g., 245521733155"
-                  value={endRollNo}
-                  onChange={(e) => setEndRollNo(e.target.value)}
-                  className="h-12 text-base bg-input border-border focus:border-ring focus:ring-ring"
-                />
-              </div>
+              {inputMode === 'range' ? (
+                <>
+                <div className="space-y-2">
+                  <Label htmlFor="startRollNo" className="text-sm font-medium text-card-foreground flex items-center gap-2">
+                    <span className="w-2 h-2 bg-chart-1 rounded-full"></span>
+                    Starting Roll No.
+                  </Label>
+                  <Input
+                    id="startRollNo"
+                    placeholder="e.g., 245521733150"
+                    value={startRollNo}
+                    onChange={(e) => setStartRollNo(e.target.value)}
+                    className="h-12 text-base bg-input border-border focus:border-ring focus:ring-ring"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="endRollNo" className="text-sm font-medium text-card-foreground flex items-center gap-2">
+                    <span className="w-2 h-2 bg-chart-2 rounded-full"></span>
+                    Ending Roll No.
+                  </Label>
+                  <Input
+                    id="endRollNo"
+                    placeholder="e.g., 245521733155"
+                    value={endRollNo}
+                    onChange={(e) => setEndRollNo(e.target.value)}
+                    className="h-12 text-base bg-input border-border focus:border-ring focus:ring-ring"
+                  />
+                </div>
+                </>
+              ) : (
+                <div className="space-y-2 lg:col-span-2">
+                  <Label htmlFor="htnoList" className="text-sm font-medium text-card-foreground flex items-center gap-2">
+                    <span className="w-2 h-2 bg-chart-1 rounded-full"></span>
+                    Hall Ticket Numbers
+                  </Label>
+                  <textarea
+                    id="htnoList"
+                    rows={3}
+                    placeholder="e.g., 245521733150-245521733210, 245521733301-312, 245522733005"
+                    value={htnoList}
+                    onChange={(e) => setHtnoList(e.target.value)}
+                    className="flex w-full rounded-md border px-3 py-2 text-base bg-input border-border focus:border-ring focus:ring-ring focus-visible:outline-none"
+                  />
+                </div>
+              )}
               <div className="space-y-2 lg:col-span-1">
                 <Label htmlFor="url" className="text-sm font-medium text-card-foreground flex items-center gap-2">
                   <span className="w-2 h-2 bg-primary rounded-full"></span>
@@ -242,6 +655,50 @@ export default function StudentResults() {
                 />
               </div>
             </div>
+
+            {inputMode === 'list' && (
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 md:gap-6">
+                <div className="space-y-2 lg:col-span-2">
+                  <Label htmlFor="excludeList" className="text-sm font-medium text-card-foreground flex items-center gap-2">
+                    <span className="w-2 h-2 bg-chart-2 rounded-full"></span>
+                    Exclude
+                  </Label>
+                  <Input
+                    id="excludeList"
+                    placeholder="e.g., 245521733166, 245521733180-185"
+                    value={excludeList}
+                    onChange={(e) => setExcludeList(e.target.value)}
+                    className="h-12 text-base bg-input border-border focus:border-ring focus:ring-ring"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="htnoFile" className="text-sm font-medium text-card-foreground flex items-center gap-2">
+                    <span className="w-2 h-2 bg-primary rounded-full"></span>
+                    Import from CSV / Excel
+                  </Label>
+                  <Input
+                    id="htnoFile"
+                    type="file"
+                    accept=".csv,.xlsx,.xls"
+                    onChange={importHtnoFile}
+                    className="h-12 text-base bg-input border-border focus:border-ring focus:ring-ring"
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center gap-2">
+              <input
+                id="forceRefresh"
+                type="checkbox"
+                checked={forceRefresh}
+                onChange={(e) => setForceRefresh(e.target.checked)}
+                className="h-4 w-4 accent-primary"
+              />
+              <Label htmlFor="forceRefresh" className="text-sm text-muted-foreground">
+                Force refresh (ignore cached results)
+              </Label>
+            </div>
             
             <Button 
               onClick={fetchResults} 
@@ -263,6 +720,24 @@ export default function StudentResults() {
                 </div>
               )}
             </Button>
+
+            <input
+              ref={openFileRef}
+              type="file"
+              accept=".xlsx,.ods,.csv,.json"
+              onChange={openResultsFile}
+              className="hidden"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => openFileRef.current?.click()}
+              disabled={loading}
+              className="w-full h-12 text-base font-medium border-border"
+            >
+              <FolderOpen className="mr-2 h-5 w-5" />
+              Open Exported File
+            </Button>
           </CardContent>
         </Card>
 
@@ -282,8 +757,52 @@ export default function StudentResults() {
           </Card>
         )}
 
-        {/* Results Section */}
+        {/* Layout Change Warning */}
+        {degradedResults.length > 0 && (
+          <Card className="mb-6 md:mb-8 border-chart-4/30 bg-chart-4/10">
+            <CardContent className="p-4 md:p-6 space-y-2">
+              <p className="text-card-foreground text-sm md:text-base font-medium">
+                The results portal layout seems to have changed: {degradedResults.length} {degradedResults.length === 1 ? 'result' : 'results'} could not be read completely.
+              </p>
+              <ul className="list-disc pl-5 text-sm text-muted-foreground">
+                {layoutIssues.map(issue => (
+                  <li key={issue}>{issue}</li>
+                ))}
+              </ul>
+              <p className="text-sm text-muted-foreground">
+                The raw pages were saved to the server&apos;s diagnostics folder. Check the affected rows before relying on them.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Saved Sessions */}
+        <SessionHistory
+          currentId={sessionId}
+          version={sessionsVersion}
+          disabled={loading}
+          onOpen={openSession}
+          onRename={renameSession}
+          onDelete={removeSession}
+        />
+
+        {/* Class Summary */}
+        {results.length > 0 && (
+          <ClassDashboard results={results} />
+        )}
+
+        {/* Backlogs */}
         {results.length > 0 && (
+          <BacklogReport results={results} />
+        )}
+
+        {/* Snapshot Comparison */}
+        {results.length > 0 && !loading && (
+          <ResultComparison results={results} url={url} />
+        )}
+
+        {/* Results Section */}
+        {(results.length > 0 || failures.length > 0) && (
           <Card className="shadow-lg border-border bg-card">
             <CardHeader className="pb-4">
               <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
@@ -292,13 +811,44 @@ export default function StudentResults() {
                     <svg className="w-5 h-5 md:w-6 md:h-6 text-chart-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
                     </svg>
-                    Results ({results.length} students)
+                    Results ({filtersActive ? `${visibleResults.length} of ${results.length}` : results.length} students)
                   </CardTitle>
+                  {cachedCount > 0 && (
+                    <p className="text-muted-foreground text-sm mt-1">{cachedCount} loaded from cache</p>
+                  )}
+                  {failures.length > 0 && (
+                    <p className="text-destructive text-sm mt-1 font-medium">{failures.length} hall tickets failed to fetch</p>
+                  )}
                   <p className="text-muted-foreground text-sm mt-1">Click "More Info" to view detailed marks for each student</p>
                 </div>
-                <div className="flex gap-2 w-full sm:w-auto">
+                <div className="flex flex-wrap gap-2 w-full sm:w-auto">
+                  <select
+                    aria-label="Group results"
+                    value={groupBy}
+                    onChange={(e) => setGroupBy(e.target.value as GroupBy | 'none')}
+                    className="h-10 rounded-md border border-border bg-card px-3 text-sm text-card-foreground"
+                  >
+                    <option value="none">No grouping</option>
+                    <option value="college">Group by college</option>
+                    <option value="branch">Group by branch</option>
+                    <option value="college-branch">Group by college & branch</option>
+                  </select>
+                  {groupBy !== 'none' && (
+                    <HtnoCodeEditor codes={codeTable} onChange={setCodeTable} />
+                  )}
+                  {failures.length > 0 && (
+                    <Button
+                      onClick={retryFailed}
+                      disabled={loading}
+                      variant="outline"
+                      className="flex-1 sm:flex-none h-10 border-primary/30 text-primary hover:bg-primary/10 hover:border-primary"
+                    >
+                      <RotateCw className="mr-2 h-4 w-4" />
+                      Retry Failed
+                    </Button>
+                  )}
                   <Button 
-                    onClick={downloadExcel} 
+                    onClick={() => downloadResults('xlsx')} 
                     variant="outline" 
                     className="flex-1 sm:flex-none h-10 border-chart-2/30 text-chart-2 hover:bg-chart-2/10 hover:border-chart-2"
                   >
@@ -313,6 +863,118 @@ export default function StudentResults() {
                     <FilePdf className="mr-2 h-4 w-4" />
                     PDF
                   </Button>
+                  <select
+                    aria-label="Download in another format"
+                    value=""
+                    onChange={(e) => e.target.value && downloadResults(e.target.value as ExportFormat)}
+                    className="h-10 rounded-md border border-border bg-card px-3 text-sm text-card-foreground"
+                  >
+                    <option value="">More formats...</option>
+                    {(['ods', 'csv', 'marks-csv', 'json'] as const).map(format => (
+                      <option key={format} value={format}>{EXPORT_FORMATS[format].label}</option>
+                    ))}
+                  </select>
+                  <Button 
+                    onClick={downloadGradeCards} 
+                    disabled={generatingCards}
+                    variant="outline" 
+                    className="flex-1 sm:flex-none h-10 border-chart-4/30 text-chart-4 hover:bg-chart-4/10 hover:border-chart-4"
+                  >
+                    <FileArchive className="mr-2 h-4 w-4" />
+                    {generatingCards ? 'Generating...' : 'Grade Cards'}
+                  </Button>
+                </div>
+              </div>
+
+              {/* Search and Filters */}
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-2 pt-4">
+                <Input
+                  aria-label="Search results"
+                  placeholder="Search name or hall ticket"
+                  value={filters.search}
+                  onChange={(e) => updateFilter('search', e.target.value)}
+                  className="h-10 lg:col-span-2 bg-input border-border"
+                />
+                <select
+                  aria-label="Filter by outcome"
+                  value={filters.outcome}
+                  onChange={(e) => updateFilter('outcome', e.target.value as OutcomeFilter)}
+                  className="h-10 rounded-md border border-border bg-card px-3 text-sm text-card-foreground"
+                >
+                  <option value="all">All outcomes</option>
+                  <option value="passed">Passed</option>
+                  <option value="failed">Failed</option>
+                  <option value="promoted">Promoted</option>
+                  <option value="absent">Absent</option>
+                  <option value="withheld">Withheld</option>
+                  <option value="not-found">Not found</option>
+                </select>
+                <div className="flex gap-2">
+                  <Input
+                    aria-label="Minimum SGPA"
+                    type="number"
+                    min={0}
+                    max={10}
+                    step={0.1}
+                    placeholder="Min SGPA"
+                    value={filters.minSgpa}
+                    onChange={(e) => updateFilter('minSgpa', e.target.value)}
+                    className="h-10 bg-input border-border"
+                  />
+                  <Input
+                    aria-label="Maximum SGPA"
+                    type="number"
+                    min={0}
+                    max={10}
+                    step={0.1}
+                    placeholder="Max SGPA"
+                    value={filters.maxSgpa}
+                    onChange={(e) => updateFilter('maxSgpa', e.target.value)}
+                    className="h-10 bg-input border-border"
+                  />
+                </div>
+                <select
+                  aria-label="Filter by failed subject"
+                  value={filters.failedSubject}
+                  onChange={(e) => updateFilter('failedSubject', e.target.value)}
+                  className="h-10 rounded-md border border-border bg-card px-3 text-sm text-card-foreground"
+                >
+                  <option value="">All subjects</option>
+                  {subjects.map(subject => (
+                    <option key={subject.code} value={subject.code}>
+                      Failed in {subject.code} - {subject.name}
+                    </option>
+                  ))}
+                </select>
+                <div className="flex gap-2">
+                  <select
+                    aria-label="Sort results"
+                    value={sort ? `${sort.key}:${sort.direction}` : ''}
+                    onChange={(e) => {
+                      const [key, direction] = e.target.value.split(':');
+                      setSort(key ? { key: key as SortKey, direction: direction as SortState['direction'] } : null);
+                    }}
+                    className="h-10 flex-1 rounded-md border border-border bg-card px-3 text-sm text-card-foreground md:hidden"
+                  >
+                    <option value="">Fetch order</option>
+                    <option value="hallTicketNo:asc">Hall ticket ↑</option>
+                    <option value="hallTicketNo:desc">Hall ticket ↓</option>
+                    <option value="name:asc">Name A-Z</option>
+                    <option value="name:desc">Name Z-A</option>
+                    <option value="sgpa:desc">SGPA high-low</option>
+                    <option value="sgpa:asc">SGPA low-high</option>
+                    <option value="cgpa:desc">CGPA high-low</option>
+                    <option value="cgpa:asc">CGPA low-high</option>
+                  </select>
+                  {filtersActive && (
+                    <Button
+                      variant="ghost"
+                      onClick={() => setFilters(EMPTY_FILTERS)}
+                      className="h-10"
+                    >
+                      Clear filters
+                    </Button>
+                  )}
                 </div>
               </div>
             </CardHeader>
@@ -320,97 +982,127 @@ export default function StudentResults() {
             <CardContent className="p-0">
               {/* Mobile Cards View */}
               <div className="block md:hidden space-y-4 p-4">
-                {results.map((result, index) => (
-                  <Card key={result.personalDetails?.hallTicketNo || `row-${index}`} className="border border-border">
-                    <CardContent className="p-4">
-                      <div className="space-y-3">
-                        <div className="flex justify-between items-start">
-                          <div>
-                            <h3 className="font-semibold text-card-foreground">{result.personalDetails?.name}</h3>
-                            <p className="text-sm text-muted-foreground">{result.personalDetails?.hallTicketNo}</p>
-                          </div>
-                          <div className="text-right">
-                            <div className={`text-sm font-medium ${getSgpaColor(result.result?.sgpa || '')}`}>
-                              SGPA: {result.result?.sgpa}
-                            </div>
-                            <div className={`text-sm font-medium ${getSgpaColor(result.result?.cgpa || '')}`}>
-                              CGPA: {result.result?.cgpa}
+                {(groups ?? [null]).map((group) => (
+                  <Fragment key={group?.key ?? 'all'}>
+                    {group && (
+                      <div className="pt-2">
+                        <h3 className="font-semibold text-card-foreground">{group.label}</h3>
+                        <p className="text-xs text-muted-foreground">{describeSubtotal(group.summary)}</p>
+                      </div>
+                    )}
+                    {(group?.results ?? visibleResults).map((result, index) => (
+                      <Card key={result.personalDetails?.hallTicketNo || `row-${index}`} className="border border-border">
+                        <CardContent className="p-4">
+                          <div className="space-y-3">
+                            <div className="flex justify-between items-start">
+                              <div>
+                                <h3 className="font-semibold text-card-foreground">{result.personalDetails?.name}</h3>
+                                <p className="text-sm text-muted-foreground">{result.personalDetails?.hallTicketNo}</p>
+                                <div className="mt-1">
+                                  <StatusBadge result={result} showHint={result.status === 'NOT_FOUND' || result.degraded} />
+                                </div>
+                              </div>
+                              <div className="text-right">
+                                <div className={`text-sm font-medium ${getSgpaColor(result.result)}`}>
+                                  SGPA: {result.result?.sgpa}
+                                </div>
+                                <div className={`text-sm font-medium ${getCgpaColor(result.result)}`}>
+                                  CGPA: {result.result?.cgpa}
+                                </div>
+                              </div>
                             </div>
-                          </div>
-                        </div>
-                        <Dialog>
-                          <DialogTrigger asChild>
-                            <Button variant="outline" size="sm" className="w-full border-border hover:bg-muted">
-                              View Details
-                            </Button>
-                          </DialogTrigger>
-                          <DialogContent className="max-w-[95vw] max-h-[90vh] overflow-y-auto bg-card border-border">
-                            <DialogHeader>
-                              <DialogTitle className="text-lg text-card-foreground">{result.personalDetails?.name} - Details</DialogTitle>
-                            </DialogHeader>
-                            {/* Student Details Modal Content */}
-                            <div className="mt-4 space-y-4">
-                              <Card className="border-border bg-card">
-                                <CardHeader className="pb-2">
-                                  <CardTitle className="text-base text-card-foreground">Personal Details</CardTitle>
-                                </CardHeader>
-                                <CardContent className="text-sm space-y-2 text-card-foreground">
-                                  <p><strong>Hall Ticket No:</strong> {result.personalDetails?.hallTicketNo}</p>
-                                  <p><strong>Father's Name:</strong> {result.personalDetails?.fatherName}</p>
-                                  <p><strong>Gender:</strong> {result.personalDetails?.gender}</p>
-                                  <p><strong>Course:</strong> {result.personalDetails?.course}</p>
-                                </CardContent>
-                              </Card>
+                            <Dialog>
+                              <DialogTrigger asChild>
+                                <Button variant="outline" size="sm" className="w-full border-border hover:bg-muted">
+                                  View Details
+                                </Button>
+                              </DialogTrigger>
+                              <DialogContent className="max-w-[95vw] max-h-[90vh] overflow-y-auto bg-card border-border">
+                                <DialogHeader>
+                                  <DialogTitle className="text-lg text-card-foreground">{result.personalDetails?.name} - Details</DialogTitle>
+                                </DialogHeader>
+                                {/* Student Details Modal Content */}
+                                <div className="mt-4 space-y-4">
+                                  <Card className="border-border bg-card">
+                                    <CardHeader className="pb-2">
+                                      <CardTitle className="text-base text-card-foreground">Personal Details</CardTitle>
+                                    </CardHeader>
+                                    <CardContent className="text-sm space-y-2 text-card-foreground">
+                                      <p><strong>Hall Ticket No:</strong> {result.personalDetails?.hallTicketNo}</p>
+                                      <p><strong>Father's Name:</strong> {result.personalDetails?.fatherName}</p>
+                                      <p><strong>Gender:</strong> {result.personalDetails?.gender}</p>
+                                      <p><strong>Course:</strong> {result.personalDetails?.course}</p>
+                                    </CardContent>
+                                  </Card>
                               
-                              {result.marks && (
-                                <Card className="border-border bg-card">
-                                  <CardHeader className="pb-2">
-                                    <CardTitle className="text-base text-card-foreground">Marks</CardTitle>
-                                  </CardHeader>
-                                  <CardContent className="p-0">
-                                    <div className="overflow-x-auto">
-                                      <Table>
-                                        <TableHeader>
-                                          <TableRow className="border-border">
-                                            <TableHead className="text-xs text-muted-foreground py-3 px-4">Subject Code</TableHead>
-                                            <TableHead className="text-xs text-muted-foreground py-3 px-4">Subject Name</TableHead>
-                                            <TableHead className="text-xs text-muted-foreground py-3 px-4">Credits</TableHead>
-                                            <TableHead className="text-xs text-muted-foreground py-3 px-4">Grade Points</TableHead>
-                                            <TableHead className="text-xs text-muted-foreground py-3 px-4">Grade</TableHead>
-                                          </TableRow>
-                                        </TableHeader>
-                                        <TableBody>
-                                          {result.marks.map((mark, markIndex) => (
-                                            <TableRow key={`${result.personalDetails?.hallTicketNo}-mark-${markIndex}`} className="border-border h-12">
-                                              <TableCell className="text-xs text-card-foreground py-3 px-4">{mark.subCode}</TableCell>
-                                              <TableCell className="text-xs text-card-foreground py-3 px-4">{mark.subjectName}</TableCell>
-                                              <TableCell className="text-xs text-card-foreground py-3 px-4">{mark.credits}</TableCell>
-                                              <TableCell className="text-xs text-card-foreground py-3 px-4">{mark.gradePoints}</TableCell>
-                                              <TableCell className="text-xs text-card-foreground py-3 px-4">{mark.gradeSecurity}</TableCell>
-                                            </TableRow>
-                                          ))}
-                                        </TableBody>
-                                      </Table>
-                                    </div>
-                                  </CardContent>
-                                </Card>
-                              )}
+                                  {result.marks && (
+                                    <Card className="border-border bg-card">
+                                      <CardHeader className="pb-2">
+                                        <CardTitle className="text-base text-card-foreground">Marks</CardTitle>
+                                      </CardHeader>
+                                      <CardContent className="p-0">
+                                        <div className="overflow-x-auto">
+                                          <Table>
+                                            <TableHeader>
+                                              <TableRow className="border-border">
+                                                <TableHead className="text-xs text-muted-foreground py-3 px-4">Subject Code</TableHead>
+                                                <TableHead className="text-xs text-muted-foreground py-3 px-4">Subject Name</TableHead>
+                                                <TableHead className="text-xs text-muted-foreground py-3 px-4">Credits</TableHead>
+                                                <TableHead className="text-xs text-muted-foreground py-3 px-4">Grade Points</TableHead>
+                                                <TableHead className="text-xs text-muted-foreground py-3 px-4">Grade</TableHead>
+                                              </TableRow>
+                                            </TableHeader>
+                                            <TableBody>
+                                              {result.marks.map((mark, markIndex) => (
+                                                <TableRow key={`${result.personalDetails?.hallTicketNo}-mark-${markIndex}`} className="border-border h-12">
+                                                  <TableCell className="text-xs text-card-foreground py-3 px-4">{mark.subCode}</TableCell>
+                                                  <TableCell className="text-xs text-card-foreground py-3 px-4">{mark.subjectName}</TableCell>
+                                                  <TableCell className="text-xs text-card-foreground py-3 px-4">{mark.credits}</TableCell>
+                                                  <TableCell className="text-xs text-card-foreground py-3 px-4">{mark.gradePoints}</TableCell>
+                                                  <TableCell className="text-xs text-card-foreground py-3 px-4">{mark.gradeSecurity}</TableCell>
+                                                </TableRow>
+                                              ))}
+                                            </TableBody>
+                                          </Table>
+                                        </div>
+                                      </CardContent>
+                                    </Card>
+                                  )}
                               
-                              {result.result && (
-                                <Card className="border-border bg-card">
-                                  <CardHeader className="pb-2">
-                                    <CardTitle className="text-base text-card-foreground">Result</CardTitle>
-                                  </CardHeader>
-                                  <CardContent className="text-sm space-y-2 text-card-foreground">
-                                    <p><strong>Semester:</strong> {result.result.semester}</p>
-                                    <p><strong>SGPA:</strong> {result.result.sgpa}</p>
-                                    <p><strong>CGPA:</strong> {result.result.cgpa}</p>
-                                  </CardContent>
-                                </Card>
-                              )}
-                            </div>
-                          </DialogContent>
-                        </Dialog>
+                                  {result.result && (
+                                    <Card className="border-border bg-card">
+                                      <CardHeader className="pb-2">
+                                        <CardTitle className="text-base text-card-foreground">Result</CardTitle>
+                                      </CardHeader>
+                                      <CardContent className="text-sm space-y-2 text-card-foreground">
+                                        <p><strong>Semester:</strong> {result.result.semester}</p>
+                                        <p><strong>SGPA:</strong> {result.result.sgpa}</p>
+                                        <p><strong>CGPA:</strong> {result.result.cgpa}</p>
+                                      </CardContent>
+                                    </Card>
+                                  )}
+
+                                  {result.history && (
+                                    <SemesterHistory history={result.history} compact />
+                                  )}
+                                </div>
+                              </DialogContent>
+                            </Dialog>
+                          </div>
+                        </CardContent>
+                      </Card>
+                    ))}
+                  </Fragment>
+                ))}
+                {filtersActive && visibleResults.length === 0 && (
+                  <p className="text-center text-sm text-muted-foreground py-4">No students match the current filters.</p>
+                )}
+                {failures.map((failure) => (
+                  <Card key={`failed-${failure.htno}`} className="border border-destructive/30 bg-destructive/10">
+                    <CardContent className="p-4">
+                      <h3 className="font-semibold text-card-foreground">{failure.htno}</h3>
+                      <div className="mt-1">
+                        <StatusBadge failure={failure} showHint />
                       </div>
                     </CardContent>
                   </Card>
@@ -422,98 +1114,134 @@ export default function StudentResults() {
                 <Table>
                   <TableHeader>
                     <TableRow className="bg-muted">
-                      <TableHead className="font-semibold text-muted-foreground py-4 px-6">Hall Ticket No.</TableHead>
-                      <TableHead className="font-semibold text-muted-foreground py-4 px-6">Name</TableHead>
-                      <TableHead className="font-semibold text-muted-foreground py-4 px-6">SGPA</TableHead>
-                      <TableHead className="font-semibold text-muted-foreground py-4 px-6">CGPA</TableHead>
+                      {renderSortHeader('hallTicketNo', 'Hall Ticket No.')}
+                      {renderSortHeader('name', 'Name')}
+                      <TableHead className="font-semibold text-muted-foreground py-4 px-6">Status</TableHead>
+                      {renderSortHeader('sgpa', 'SGPA')}
+                      {renderSortHeader('cgpa', 'CGPA')}
                       <TableHead className="font-semibold text-muted-foreground py-4 px-6">Action</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {results.map((result, index) => (
-                      <TableRow key={result.personalDetails?.hallTicketNo || `row-${index}`} className="hover:bg-muted/50 border-border h-16">
-                        <TableCell className="font-medium text-card-foreground py-4 px-6">{result.personalDetails?.hallTicketNo}</TableCell>
-                        <TableCell className="font-medium text-card-foreground py-4 px-6">{result.personalDetails?.name}</TableCell>
-                        <TableCell className={`font-medium py-4 px-6 ${getSgpaColor(result.result?.sgpa || '')}`}>
-                          {result.result?.sgpa}
-                        </TableCell>
-                        <TableCell className={`font-medium py-4 px-6 ${getSgpaColor(result.result?.cgpa || '')}`}>
-                          {result.result?.cgpa}
-                        </TableCell>
-                        <TableCell className="py-4 px-6">
-                          <Dialog>
-                            <DialogTrigger asChild>
-                              <Button variant="outline" size="sm" className="hover:bg-primary/10 hover:border-primary border-border">
-                                More Info
-                              </Button>
-                            </DialogTrigger>
-                            <DialogContent className="max-w-[90vw] max-h-[90vh] overflow-y-auto bg-card border-border">
-                              <DialogHeader>
-                                <DialogTitle className="text-xl text-card-foreground">{result.personalDetails?.name} - Details</DialogTitle>
-                              </DialogHeader>
-                              {/* Same modal content as mobile */}
-                              <div className="mt-4 space-y-4">
-                                <Card className="border-border bg-card">
-                                  <CardHeader>
-                                    <CardTitle className="text-lg text-card-foreground">Personal Details</CardTitle>
-                                  </CardHeader>
-                                  <CardContent className="space-y-2 text-card-foreground">
-                                    <p><strong>Hall Ticket No:</strong> {result.personalDetails?.hallTicketNo}</p>
-                                    <p><strong>Father's Name:</strong> {result.personalDetails?.fatherName}</p>
-                                    <p><strong>Gender:</strong> {result.personalDetails?.gender}</p>
-                                    <p><strong>Course:</strong> {result.personalDetails?.course}</p>
-                                  </CardContent>
-                                </Card>
+                    {(groups ?? [null]).map((group) => (
+                      <Fragment key={group?.key ?? 'all'}>
+                        {group && (
+                          <TableRow className="bg-muted/60 border-border">
+                            <TableCell colSpan={6} className="font-semibold text-card-foreground py-3 px-6">
+                              {group.label}
+                              <span className="ml-3 text-sm font-normal text-muted-foreground">{describeSubtotal(group.summary)}</span>
+                            </TableCell>
+                          </TableRow>
+                        )}
+                        {(group?.results ?? visibleResults).map((result, index) => (
+                          <TableRow key={result.personalDetails?.hallTicketNo || `row-${index}`} className="hover:bg-muted/50 border-border h-16">
+                            <TableCell className="font-medium text-card-foreground py-4 px-6">{result.personalDetails?.hallTicketNo}</TableCell>
+                            <TableCell className="font-medium text-card-foreground py-4 px-6">{result.personalDetails?.name}</TableCell>
+                            <TableCell className="py-4 px-6 max-w-xs">
+                              <StatusBadge result={result} showHint={result.status === 'NOT_FOUND' || result.degraded} />
+                            </TableCell>
+                            <TableCell className={`font-medium py-4 px-6 ${getSgpaColor(result.result)}`}>
+                              {result.result?.sgpa}
+                            </TableCell>
+                            <TableCell className={`font-medium py-4 px-6 ${getCgpaColor(result.result)}`}>
+                              {result.result?.cgpa}
+                            </TableCell>
+                            <TableCell className="py-4 px-6">
+                              <Dialog>
+                                <DialogTrigger asChild>
+                                  <Button variant="outline" size="sm" className="hover:bg-primary/10 hover:border-primary border-border">
+                                    More Info
+                                  </Button>
+                                </DialogTrigger>
+                                <DialogContent className="max-w-[90vw] max-h-[90vh] overflow-y-auto bg-card border-border">
+                                  <DialogHeader>
+                                    <DialogTitle className="text-xl text-card-foreground">{result.personalDetails?.name} - Details</DialogTitle>
+                                  </DialogHeader>
+                                  {/* Same modal content as mobile */}
+                                  <div className="mt-4 space-y-4">
+                                    <Card className="border-border bg-card">
+                                      <CardHeader>
+                                        <CardTitle className="text-lg text-card-foreground">Personal Details</CardTitle>
+                                      </CardHeader>
+                                      <CardContent className="space-y-2 text-card-foreground">
+                                        <p><strong>Hall Ticket No:</strong> {result.personalDetails?.hallTicketNo}</p>
+                                        <p><strong>Father's Name:</strong> {result.personalDetails?.fatherName}</p>
+                                        <p><strong>Gender:</strong> {result.personalDetails?.gender}</p>
+                                        <p><strong>Course:</strong> {result.personalDetails?.course}</p>
+                                      </CardContent>
+                                    </Card>
                                 
-                                {result.marks && (
-                                  <Card className="border-border bg-card">
-                                    <CardHeader>
-                                      <CardTitle className="text-lg text-card-foreground">Marks</CardTitle>
-                                    </CardHeader>
-                                    <CardContent className="p-0">
-                                      <div className="overflow-x-auto">
-                                        <Table>
-                                          <TableHeader>
-                                            <TableRow className="border-border">
-                                              <TableHead className="text-muted-foreground py-3 px-4">Subject Code</TableHead>
-                                              <TableHead className="text-muted-foreground py-3 px-4">Subject Name</TableHead>
-                                              <TableHead className="text-muted-foreground py-3 px-4">Credits</TableHead>
-                                              <TableHead className="text-muted-foreground py-3 px-4">Grade Points</TableHead>
-                                              <TableHead className="text-muted-foreground py-3 px-4">Grade</TableHead>
-                                            </TableRow>
-                                          </TableHeader>
-                                          <TableBody>
-                                            {result.marks.map((mark, markIndex) => (
-                                              <TableRow key={`${result.personalDetails?.hallTicketNo}-mark-${markIndex}`} className="border-border h-12">
-                                                <TableCell className="text-card-foreground py-3 px-4">{mark.subCode}</TableCell>
-                                                <TableCell className="text-card-foreground py-3 px-4">{mark.subjectName}</TableCell>
-                                                <TableCell className="text-card-foreground py-3 px-4">{mark.credits}</TableCell>
-                                                <TableCell className="text-card-foreground py-3 px-4">{mark.gradePoints}</TableCell>
-                                                <TableCell className="text-card-foreground py-3 px-4">{mark.gradeSecurity}</TableCell>
-                                              </TableRow>
-                                            ))}
-                                          </TableBody>
-                                        </Table>
-                                      </div>
-                                    </CardContent>
-                                  </Card>
-                                )}
+                                    {result.marks && (
+                                      <Card className="border-border bg-card">
+                                        <CardHeader>
+                                          <CardTitle className="text-lg text-card-foreground">Marks</CardTitle>
+                                        </CardHeader>
+                                        <CardContent className="p-0">
+                                          <div className="overflow-x-auto">
+                                            <Table>
+                                              <TableHeader>
+                                                <TableRow className="border-border">
+                                                  <TableHead className="text-muted-foreground py-3 px-4">Subject Code</TableHead>
+                                                  <TableHead className="text-muted-foreground py-3 px-4">Subject Name</TableHead>
+                                                  <TableHead className="text-muted-foreground py-3 px-4">Credits</TableHead>
+                                                  <TableHead className="text-muted-foreground py-3 px-4">Grade Points</TableHead>
+                                                  <TableHead className="text-muted-foreground py-3 px-4">Grade</TableHead>
+                                                </TableRow>
+                                              </TableHeader>
+                                              <TableBody>
+                                                {result.marks.map((mark, markIndex) => (
+                                                  <TableRow key={`${result.personalDetails?.hallTicketNo}-mark-${markIndex}`} className="border-border h-12">
+                                                    <TableCell className="text-card-foreground py-3 px-4">{mark.subCode}</TableCell>
+                                                    <TableCell className="text-card-foreground py-3 px-4">{mark.subjectName}</TableCell>
+                                                    <TableCell className="text-card-foreground py-3 px-4">{mark.credits}</TableCell>
+                                                    <TableCell className="text-card-foreground py-3 px-4">{mark.gradePoints}</TableCell>
+                                                    <TableCell className="text-card-foreground py-3 px-4">{mark.gradeSecurity}</TableCell>
+                                                  </TableRow>
+                                                ))}
+                                              </TableBody>
+                                            </Table>
+                                          </div>
+                                        </CardContent>
+                                      </Card>
+                                    )}
                                 
-                                {result.result && (
-                                  <Card className="border-border bg-card">
-                                    <CardHeader>
-                                      <CardTitle className="text-lg text-card-foreground">Result</CardTitle>
-                                    </CardHeader>
-                                    <CardContent className="space-y-2 text-card-foreground">
-                                      <p><strong>Semester:</strong> {result.result.semester}</p>
-                                      <p><strong>SGPA:</strong> {result.result.sgpa}</p>
-                                      <p><strong>CGPA:</strong> {result.result.cgpa}</p>
-                                    </CardContent>
-                                  </Card>
-                                )}
-                              </div>
-                            </DialogContent>
-                          </Dialog>
+                                    {result.result && (
+                                      <Card className="border-border bg-card">
+                                        <CardHeader>
+                                          <CardTitle className="text-lg text-card-foreground">Result</CardTitle>
+                                        </CardHeader>
+                                        <CardContent className="space-y-2 text-card-foreground">
+                                          <p><strong>Semester:</strong> {result.result.semester}</p>
+                                          <p><strong>SGPA:</strong> {result.result.sgpa}</p>
+                                          <p><strong>CGPA:</strong> {result.result.cgpa}</p>
+                                        </CardContent>
+                                      </Card>
+                                    )}
+
+                                    {result.history && (
+                                      <SemesterHistory history={result.history} />
+                                    )}
+                                  </div>
+                                </DialogContent>
+                              </Dialog>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </Fragment>
+                    ))}
+                    {filtersActive && visibleResults.length === 0 && (
+                      <TableRow className="border-border">
+                        <TableCell colSpan={6} className="text-center text-muted-foreground py-6 px-6">
+                          No students match the current filters.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    {failures.map((failure) => (
+                      <TableRow key={`failed-${failure.htno}`} className="bg-destructive/10 border-border h-16">
+                        <TableCell className="font-medium text-card-foreground py-4 px-6">{failure.htno}</TableCell>
+                        <TableCell className="py-4 px-6" />
+                        <TableCell colSpan={4} className="py-4 px-6">
+                          <StatusBadge failure={failure} showHint />
                         </TableCell>
                       </TableRow>
                     ))}
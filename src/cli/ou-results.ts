@@ -0,0 +1,165 @@
+import { writeFile } from 'fs/promises';
+import { extname } from 'path';
+import { parseArgs } from 'util';
+import { DEFAULT_CONCURRENCY, MAX_CONCURRENCY, runWithConcurrency } from '../lib/ou/batch';
+import { exportResults, type ExportFormat } from '../lib/ou/export';
+import { expandHtnoRange, isValidHtno, parseHtnoList, validateHtnoRange } from '../lib/ou/htno';
+import type { StudentResult } from '../lib/ou/schema';
+import { DEFAULT_RETRIES, MAX_RETRIES, describeFetchError, fetchStudentResultWithRetry } from '../lib/ou/upstream';
+import { checkUpstreamUrl } from '../lib/ou/upstream-guard';
+
+const USAGE = `Usage: ou-results fetch --url <results url> (--from <htno> --to <htno> | --list <htnos>) --out <file>
+
+Options:
+  --url          OU results page URL
+  --from, --to   First and last hall ticket of a contiguous range
+  --list         Hall tickets and ranges, e.g. "245521733150-210,245521733301"
+  --out          Output file: .xlsx, .ods, .csv or .json
+  --marks        With a .csv output, write one row per student and subject
+  --concurrency  Parallel requests (default ${DEFAULT_CONCURRENCY}, max ${MAX_CONCURRENCY})
+  --retries      Retries per hall ticket (default ${DEFAULT_RETRIES}, max ${MAX_RETRIES})
+
+Exits with 1 when any hall ticket could not be fetched, 2 on invalid usage.`;
+
+const OUTPUT_FORMATS: Record<string, ExportFormat> = {
+  '.xlsx': 'xlsx',
+  '.ods': 'ods',
+  '.csv': 'csv',
+  '.json': 'json',
+};
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(2);
+}
+
+function resolveHtnos(values: { from?: string; to?: string; list?: string }): string[] {
+  if (values.list) {
+    const { htnos, invalid } = parseHtnoList(values.list);
+    if (invalid.length > 0) {
+      fail(`Invalid hall ticket numbers or ranges: ${invalid.join(', ')}`);
+    }
+    return Array.from(new Set(htnos));
+  }
+
+  if (values.from && values.to) {
+    if (!isValidHtno(values.from) || !isValidHtno(values.to)) {
+      fail('Hall ticket numbers must be exactly 12 digits');
+    }
+    const rangeError = validateHtnoRange(values.from, values.to);
+    if (rangeError) {
+      fail(rangeError);
+    }
+    return expandHtnoRange(values.from, values.to);
+  }
+
+  fail('Either --from and --to, or --list is required');
+}
+
+async function writeResults(out: string, results: StudentResult[], marks: boolean): Promise<void> {
+  const format = OUTPUT_FORMATS[extname(out).toLowerCase()];
+  const data = exportResults(results, format === 'csv' && marks ? 'marks-csv' : format);
+  await writeFile(out, typeof data === 'string' ? data : Buffer.from(data));
+}
+
+function parseFetchArgs(args: string[]) {
+  try {
+    return parseArgs({
+      args,
+      options: {
+        url: { type: 'string' },
+        from: { type: 'string' },
+        to: { type: 'string' },
+        list: { type: 'string' },
+        out: { type: 'string' },
+        marks: { type: 'boolean' },
+        concurrency: { type: 'string' },
+        retries: { type: 'string' },
+      },
+    });
+  } catch (e) {
+    // Unknown options, missing option values and stray arguments
+    fail(e instanceof Error ? e.message : String(e));
+  }
+}
+
+async function fetchCommand(args: string[]): Promise<number> {
+  const { values } = parseFetchArgs(args);
+
+  if (!values.url) {
+    fail('--url is required');
+  }
+  if (!values.out || !(extname(values.out).toLowerCase() in OUTPUT_FORMATS)) {
+    fail(`--out must end in ${Object.keys(OUTPUT_FORMATS).join(', ')}`);
+  }
+
+  const url = values.url;
+  const rejection = await checkUpstreamUrl(url);
+  if (rejection) {
+    fail(rejection.message);
+  }
+
+  const htnos = resolveHtnos(values);
+  const concurrency = Math.min(Math.max(parseInt(values.concurrency ?? '') || DEFAULT_CONCURRENCY, 1), MAX_CONCURRENCY);
+  const retriesArg = parseInt(values.retries ?? '', 10);
+  const retries = Math.min(Math.max(Number.isNaN(retriesArg) ? DEFAULT_RETRIES : retriesArg, 0), MAX_RETRIES);
+
+  // Keep results in hall ticket order even though they complete out of order
+  const results: Array<StudentResult | undefined> = new Array(htnos.length);
+  const failures: Array<{ htno: string; code: string; message: string }> = [];
+  let done = 0;
+  const width = String(htnos.length).length;
+
+  console.error(`Fetching ${htnos.length} hall tickets from ${url}`);
+
+  await runWithConcurrency(htnos, concurrency, async (htno, index) => {
+    let status: string;
+    try {
+      const result = await fetchStudentResultWithRetry(url, htno, retries);
+      results[index] = result;
+      status = result.status === 'FOUND' ? `FOUND  ${result.result?.sgpa ?? ''}` : 'NOT_FOUND';
+      if (result.degraded) {
+        status += `  (incomplete: ${result.layoutIssues?.map((issue) => issue.message).join('; ')})`;
+      }
+    } catch (e) {
+      const { code, message } = describeFetchError(e);
+      failures.push({ htno, code, message });
+      status = `FAILED ${code} ${message}`;
+    }
+    done++;
+    console.error(`[${String(done).padStart(width)}/${htnos.length}] ${htno}  ${status}`);
+  });
+
+  const fetched = results.filter((result): result is StudentResult => result !== undefined);
+  await writeResults(values.out, fetched, values.marks === true);
+
+  console.error(`Wrote ${fetched.length} results to ${values.out}`);
+  if (failures.length > 0) {
+    console.error(`${failures.length} hall tickets failed:`);
+    for (const failure of failures) {
+      console.error(`  ${failure.htno}  ${failure.code}  ${failure.message}`);
+    }
+    return 1;
+  }
+  return 0;
+}
+
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+
+  if (command === 'fetch') {
+    process.exit(await fetchCommand(args));
+  }
+
+  if (command === '--help' || command === '-h' || command === 'help') {
+    console.log(USAGE);
+    return;
+  }
+
+  fail(command ? `Unknown command "${command}"` : 'A command is required');
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,34 @@
+export interface Exam {
+  id: string;
+  name: string;
+  course: string;
+  semester: string;
+  examType: 'regular' | 'supplementary';
+  url: string;
+  // A hall ticket known to have a result on this page, used by "Test URL"
+  sampleHtno: string;
+}
+
+const STORAGE_KEY = 'ou-results:exam-catalog';
+
+export function loadExamCatalog(): Exam[] {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveExamCatalog(exams: Exam[]): void {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(exams));
+}
+
+export function describeExam(exam: Exam): string {
+  const type = exam.examType === 'supplementary' ? 'Supplementary' : 'Regular';
+  return [exam.name, exam.course, exam.semester && `Sem ${exam.semester}`, type].filter(Boolean).join(' · ');
+}
@@ -0,0 +1,56 @@
+import { DEFAULT_CODE_TABLE, type HtnoCodeTable } from './ou/htno-codes';
+
+const STORAGE_KEY = 'ou-results:htno-codes';
+
+/**
+ * The college/branch code table edited in the browser, or the built-in
+ * defaults when none has been saved.
+ */
+export function loadCodeTable(): HtnoCodeTable {
+  if (typeof window === 'undefined') {
+    return DEFAULT_CODE_TABLE;
+  }
+
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : DEFAULT_CODE_TABLE;
+  } catch {
+    return DEFAULT_CODE_TABLE;
+  }
+}
+
+export function saveCodeTable(codes: HtnoCodeTable): void {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(codes));
+}
+
+export function resetCodeTable(): void {
+  window.localStorage.removeItem(STORAGE_KEY);
+}
+
+/**
+ * Formats codes as editable "code = name" lines.
+ */
+export function formatCodes(codes: Record<string, string>): string {
+  return Object.entries(codes).map(([code, name]) => `${code} = ${name}`).join('\n');
+}
+
+/**
+ * Parses "code = name" lines, one per line. `digits` is the length of a code
+ * (4 for colleges, 3 for branches); lines that do not fit are returned in
+ * `invalid`.
+ */
+export function parseCodes(text: string, digits: number): { codes: Record<string, string>; invalid: string[] } {
+  const codes: Record<string, string> = {};
+  const invalid: string[] = [];
+
+  for (const line of text.split('\n').map((l) => l.trim()).filter(Boolean)) {
+    const match = line.match(/^(\d+)\s*[=:,-]\s*(.+)$/);
+    if (match && match[1].length === digits) {
+      codes[match[1]] = match[2].trim();
+    } else {
+      invalid.push(line);
+    }
+  }
+
+  return { codes, invalid };
+}
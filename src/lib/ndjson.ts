@@ -0,0 +1,39 @@
+/**
+ * Reads a newline-delimited JSON response body, calling `onLine` for every
+ * complete line as it arrives. Returning `false` from `onLine` stops reading.
+ */
+export async function readNdjson<T>(
+  response: Response,
+  onLine: (line: T) => boolean | void
+): Promise<void> {
+  if (!response.body) {
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (line.trim() && onLine(JSON.parse(line)) === false) {
+        await reader.cancel();
+        return;
+      }
+    }
+
+    if (done) {
+      break;
+    }
+  }
+
+  if (buffer.trim()) {
+    onLine(JSON.parse(buffer));
+  }
+}
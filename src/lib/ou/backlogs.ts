@@ -0,0 +1,142 @@
+import jsPDF from 'jspdf';
+import 'jspdf-autotable';
+import * as XLSX from 'xlsx';
+import { isBacklogGrade } from './grades';
+import type { StudentResult } from './schema';
+
+export interface BacklogSubject {
+  code: string;
+  name: string;
+  credits: number;
+  grade: 'F' | 'AB';
+}
+
+export interface StudentBacklog {
+  htno: string;
+  name: string;
+  subjects: BacklogSubject[];
+  creditsLost: number;
+}
+
+export interface SubjectBacklog {
+  code: string;
+  name: string;
+  credits: number;
+  students: Array<{ htno: string; name: string; grade: 'F' | 'AB' }>;
+}
+
+export interface BacklogReport {
+  students: StudentBacklog[];
+  subjects: SubjectBacklog[];
+}
+
+export const gradeLabel = (grade: 'F' | 'AB') => (grade === 'AB' ? 'Ab' : 'F');
+
+/**
+ * Collects every failed or absent subject, both per student (with the
+ * credits still to be earned) and per subject code (with the students who
+ * have to register for the supplementary exam). Subjects are listed in
+ * the order first seen, students in the order of `results`.
+ */
+export function buildBacklogReport(results: StudentResult[]): BacklogReport {
+  const students: StudentBacklog[] = [];
+  const subjects = new Map<string, SubjectBacklog>();
+
+  for (const result of results) {
+    const htno = result.personalDetails?.hallTicketNo ?? '';
+    const name = result.personalDetails?.name ?? '';
+    const backlogs: BacklogSubject[] = [];
+
+    for (const mark of result.marks ?? []) {
+      if (!isBacklogGrade(mark.grade)) {
+        continue;
+      }
+      const grade = mark.grade as 'F' | 'AB';
+      const credits = mark.creditsValue ?? 0;
+      backlogs.push({ code: mark.subCode, name: mark.subjectName, credits, grade });
+
+      let subject = subjects.get(mark.subCode);
+      if (!subject) {
+        subject = { code: mark.subCode, name: mark.subjectName, credits, students: [] };
+        subjects.set(mark.subCode, subject);
+      }
+      subject.students.push({ htno, name, grade });
+    }
+
+    if (backlogs.length > 0) {
+      students.push({
+        htno,
+        name,
+        subjects: backlogs,
+        creditsLost: backlogs.reduce((sum, subject) => sum + subject.credits, 0),
+      });
+    }
+  }
+
+  return { students, subjects: Array.from(subjects.values()) };
+}
+
+/**
+ * Builds the backlog workbook: one row per student with their backlog
+ * subjects, and one row per subject and student for registration lists.
+ */
+export function buildBacklogWorkbook(report: BacklogReport): XLSX.WorkBook {
+  const studentSheet = XLSX.utils.json_to_sheet(report.students.map((student) => ({
+    'Hall Ticket No': student.htno,
+    'Name': student.name,
+    'Backlogs': student.subjects.length,
+    'Subjects': student.subjects.map((subject) => `${subject.code} (${gradeLabel(subject.grade)})`).join(', '),
+    'Credits Lost': student.creditsLost,
+  })));
+  const subjectSheet = XLSX.utils.json_to_sheet(report.subjects.flatMap((subject) =>
+    subject.students.map((student) => ({
+      'Subject Code': subject.code,
+      'Subject Name': subject.name,
+      'Credits': subject.credits,
+      'Hall Ticket No': student.htno,
+      'Name': student.name,
+      'Grade': gradeLabel(student.grade),
+    }))
+  ));
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, studentSheet, "By Student");
+  XLSX.utils.book_append_sheet(workbook, subjectSheet, "By Subject");
+
+  return workbook;
+}
+
+/**
+ * Renders the backlog report as a PDF: the per-student table followed by
+ * one section per subject code listing the students to register.
+ */
+export function renderBacklogPdf(report: BacklogReport): jsPDF {
+  const doc = new jsPDF();
+  doc.text('Backlog Report', 14, 15);
+
+  (doc as any).autoTable({
+    head: [['Hall Ticket No', 'Name', 'Backlog Subjects', 'Credits Lost']],
+    body: report.students.map((student) => [
+      student.htno,
+      student.name,
+      student.subjects.map((subject) => `${subject.code} (${gradeLabel(subject.grade)})`).join(', '),
+      student.creditsLost,
+    ]),
+    startY: 20,
+  });
+
+  (doc as any).autoTable({
+    head: [['Hall Ticket No', 'Name', 'Grade']],
+    body: report.subjects.flatMap((subject) => [
+      [{
+        content: `${subject.code} - ${subject.name} (${subject.credits} credits, ${subject.students.length} students)`,
+        colSpan: 3,
+        styles: { fontStyle: 'bold', fillColor: [240, 240, 240] },
+      }],
+      ...subject.students.map((student) => [student.htno, student.name, gradeLabel(student.grade)]),
+    ]),
+    startY: (doc as any).lastAutoTable.finalY + 10,
+  });
+
+  return doc;
+}
@@ -0,0 +1,28 @@
+export const MAX_BATCH_SIZE = 500;
+export const DEFAULT_CONCURRENCY = 4;
+export const MAX_CONCURRENCY = 10;
+
+/**
+ * Runs `worker` over every item with at most `limit` calls in flight.
+ * Resolves once every item has been processed, or once the calls in flight
+ * finish after `signal` aborts; no new item is started after that.
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  let next = 0;
+
+  const lane = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, lane)
+  );
+}
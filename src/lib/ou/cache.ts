@@ -0,0 +1,96 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import type { StudentResult } from './schema';
+
+const CACHE_DIR = process.env.RESULTS_CACHE_DIR || path.join(process.cwd(), '.cache', 'results');
+
+// Set RESULTS_CACHE_TTL_SECONDS=0 to disable the cache entirely
+const CACHE_TTL_SECONDS = parseInt(process.env.RESULTS_CACHE_TTL_SECONDS ?? '', 10);
+const CACHE_TTL_MS = (Number.isNaN(CACHE_TTL_SECONDS) ? 6 * 60 * 60 : CACHE_TTL_SECONDS) * 1000;
+
+interface CacheEntry {
+  url: string;
+  htno: string;
+  storedAt: number;
+  data: StudentResult;
+}
+
+/**
+ * Reduces a results URL to the form used as its cache key, so that the
+ * www/non-www and trailing-slash variants of the same exam share entries.
+ */
+export function normalizeResultUrl(url: string): string {
+  const parsed = new URL(url);
+  const host = parsed.host.toLowerCase().replace(/^www\./, '');
+  const pathname = parsed.pathname.replace(/\/+$/, '');
+  return `${host}${pathname}${parsed.search}`;
+}
+
+function cacheFile(url: string, htno: string): string {
+  const key = createHash('sha1').update(`${normalizeResultUrl(url)}|${htno}`).digest('hex');
+  return path.join(CACHE_DIR, `${key}.json`);
+}
+
+export async function getCachedResult(url: string, htno: string): Promise<StudentResult | null> {
+  if (CACHE_TTL_MS <= 0) {
+    return null;
+  }
+
+  try {
+    const entry: CacheEntry = JSON.parse(await readFile(cacheFile(url, htno), 'utf8'));
+    if (Date.now() - entry.storedAt > CACHE_TTL_MS) {
+      return null;
+    }
+    return entry.data;
+  } catch {
+    return null;
+  }
+}
+
+export async function setCachedResult(url: string, htno: string, data: StudentResult): Promise<void> {
+  if (CACHE_TTL_MS <= 0) {
+    return;
+  }
+
+  const entry: CacheEntry = {
+    url: normalizeResultUrl(url),
+    htno,
+    storedAt: Date.now(),
+    data,
+  };
+
+  try {
+    await mkdir(CACHE_DIR, { recursive: true });
+    await writeFile(cacheFile(url, htno), JSON.stringify(entry));
+  } catch (e) {
+    // A read-only filesystem should only cost us the cache, not the result
+    console.error('Unable to write results cache:', e);
+  }
+}
+
+/**
+ * Serves a result from the cache when a fresh entry exists, otherwise calls
+ * `fetcher` and stores what it returns. Only complete FOUND results are
+ * cached, since a NOT_FOUND page usually just means the results are not
+ * published yet, and a degraded one should be re-read once the parser is fixed.
+ */
+export async function withResultCache(
+  url: string,
+  htno: string,
+  refresh: boolean,
+  fetcher: () => Promise<StudentResult>
+): Promise<{ data: StudentResult; cached: boolean }> {
+  if (!refresh) {
+    const cached = await getCachedResult(url, htno);
+    if (cached) {
+      return { data: cached, cached: true };
+    }
+  }
+
+  const data = await fetcher();
+  if (data.status === 'FOUND' && !data.degraded) {
+    await setCachedResult(url, htno, data);
+  }
+  return { data, cached: false };
+}
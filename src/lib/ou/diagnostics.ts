@@ -0,0 +1,34 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import type { LayoutIssue } from './schema';
+
+const DIAGNOSTICS_DIR = process.env.RESULTS_DIAGNOSTICS_DIR || path.join(process.cwd(), '.cache', 'diagnostics');
+
+/**
+ * Saves the raw upstream page behind a degraded result, with a JSON file
+ * listing what the parser could not find, so a layout change can be
+ * diagnosed (and the parser fixed) from the page OU actually served.
+ * Returns the path of the saved page, or null when it could not be written.
+ */
+export async function saveLayoutDiagnostic(
+  url: string,
+  htno: string,
+  html: string,
+  issues: LayoutIssue[]
+): Promise<string | null> {
+  const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${htno}`;
+  const htmlFile = path.join(DIAGNOSTICS_DIR, `${name}.html`);
+
+  try {
+    await mkdir(DIAGNOSTICS_DIR, { recursive: true });
+    await writeFile(htmlFile, html);
+    await writeFile(
+      path.join(DIAGNOSTICS_DIR, `${name}.json`),
+      JSON.stringify({ url, htno, savedAt: new Date().toISOString(), issues }, null, 2)
+    );
+    return htmlFile;
+  } catch (e) {
+    console.error('Unable to save layout diagnostics:', e);
+    return null;
+  }
+}
@@ -0,0 +1,83 @@
+import type { StudentResult } from './schema';
+
+export interface FieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export interface StudentDiff {
+  htno: string;
+  name: string;
+  kind: 'changed' | 'added' | 'removed';
+  changes: FieldChange[];
+}
+
+function keyedByHtno(results: StudentResult[]): Map<string, StudentResult> {
+  const keyed = new Map<string, StudentResult>();
+  for (const result of results) {
+    const htno = result.personalDetails?.hallTicketNo;
+    if (result.status === 'FOUND' && htno) {
+      keyed.set(htno, result);
+    }
+  }
+  return keyed;
+}
+
+function compareStudent(before: StudentResult, after: StudentResult): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const push = (field: string, a: string | null | undefined, b: string | null | undefined) => {
+    if ((a ?? '') !== (b ?? '')) {
+      changes.push({ field, before: a ?? '', after: b ?? '' });
+    }
+  };
+
+  push('Result', before.result?.outcome, after.result?.outcome);
+  push('SGPA', before.result?.sgpa, after.result?.sgpa);
+  push('CGPA', before.result?.cgpa, after.result?.cgpa);
+
+  const beforeMarks = new Map((before.marks ?? []).map((mark) => [mark.subCode, mark]));
+  const afterMarks = new Map((after.marks ?? []).map((mark) => [mark.subCode, mark]));
+  const codes = new Set([...beforeMarks.keys(), ...afterMarks.keys()]);
+
+  for (const code of codes) {
+    const a = beforeMarks.get(code);
+    const b = afterMarks.get(code);
+    push(`${code} Grade`, a?.gradeSecurity, b?.gradeSecurity);
+    push(`${code} Grade Points`, a?.gradePoints, b?.gradePoints);
+  }
+
+  return changes;
+}
+
+/**
+ * Compares two fetches of the same exam student by student. Only students
+ * whose grades, SGPA/CGPA or pass status differ (or who appear in just one
+ * of the two fetches) are returned.
+ */
+export function diffResults(before: StudentResult[], after: StudentResult[]): StudentDiff[] {
+  const previous = keyedByHtno(before);
+  const current = keyedByHtno(after);
+  const diffs: StudentDiff[] = [];
+
+  for (const [htno, result] of current) {
+    const name = result.personalDetails?.name ?? '';
+    const old = previous.get(htno);
+    if (!old) {
+      diffs.push({ htno, name, kind: 'added', changes: [] });
+      continue;
+    }
+    const changes = compareStudent(old, result);
+    if (changes.length > 0) {
+      diffs.push({ htno, name, kind: 'changed', changes });
+    }
+  }
+
+  for (const [htno, result] of previous) {
+    if (!current.has(htno)) {
+      diffs.push({ htno, name: result.personalDetails?.name ?? '', kind: 'removed', changes: [] });
+    }
+  }
+
+  return diffs.sort((a, b) => a.htno.localeCompare(b.htno));
+}
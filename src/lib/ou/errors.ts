@@ -0,0 +1,61 @@
+export type ResultErrorCode =
+  | 'INVALID_REQUEST'
+  | 'INVALID_HTNO'
+  | 'INVALID_URL'
+  | 'HOST_NOT_ALLOWED'
+  | 'BATCH_TOO_LARGE'
+  | 'RATE_LIMITED'
+  | 'NOT_FOUND'
+  | 'UPSTREAM_BUSY'
+  | 'UPSTREAM_TIMEOUT'
+  | 'UPSTREAM_NETWORK_ERROR'
+  | 'UPSTREAM_HTTP_ERROR'
+  | 'PARSE_FAILED'
+  | 'INTERNAL_ERROR';
+
+/**
+ * The body of every error response from the results API, and of every
+ * failure line in the batch stream (which also carries the hall ticket).
+ * `retryAfter` is in seconds and only set when waiting is expected to help.
+ */
+export interface ApiError {
+  code: ResultErrorCode;
+  message: string;
+  retryAfter?: number;
+}
+
+interface ErrorCodeInfo {
+  status: number;
+  label: string;
+  hint: string;
+}
+
+/**
+ * HTTP status, short badge label and a hint on what to do, per error code.
+ */
+export const ERROR_CODES: Record<ResultErrorCode, ErrorCodeInfo> = {
+  INVALID_REQUEST: { status: 400, label: 'Invalid request', hint: 'The request is missing a required field.' },
+  INVALID_HTNO: { status: 400, label: 'Invalid hall ticket', hint: 'Hall ticket numbers must be exactly 12 digits.' },
+  INVALID_URL: { status: 400, label: 'Invalid URL', hint: 'Check the results URL; only http and https pages are supported.' },
+  HOST_NOT_ALLOWED: { status: 403, label: 'Host not allowed', hint: 'The results URL is not on an allowed OU host (see RESULTS_ALLOWED_HOSTS).' },
+  BATCH_TOO_LARGE: { status: 400, label: 'Batch too large', hint: 'Split the hall tickets into smaller batches.' },
+  RATE_LIMITED: { status: 429, label: 'Rate limited', hint: 'Too many requests from this client; wait and try again.' },
+  NOT_FOUND: { status: 404, label: 'Not found', hint: 'The portal has no result for this hall ticket; the results may not be published yet or the URL is for another exam.' },
+  UPSTREAM_BUSY: { status: 503, label: 'Portal busy', hint: 'The OU portal asked us to slow down; retry in a little while.' },
+  UPSTREAM_TIMEOUT: { status: 504, label: 'Timed out', hint: 'The OU portal did not answer in time; retry later.' },
+  UPSTREAM_NETWORK_ERROR: { status: 502, label: 'Network error', hint: 'The OU portal could not be reached; check the URL and your connection.' },
+  UPSTREAM_HTTP_ERROR: { status: 502, label: 'Portal error', hint: 'The OU portal returned an error page; retry later.' },
+  PARSE_FAILED: { status: 502, label: 'Unreadable page', hint: 'The portal answered, but the page did not look like a result page.' },
+  INTERNAL_ERROR: { status: 500, label: 'Failed', hint: 'Something went wrong; retry later.' },
+};
+
+/**
+ * An error with a machine-readable code, thrown by the fetch and parse
+ * steps so the routes can report exactly what went wrong.
+ */
+export class ResultError extends Error {
+  constructor(public code: ResultErrorCode, message: string) {
+    super(message);
+    this.name = 'ResultError';
+  }
+}
@@ -0,0 +1,203 @@
+import * as XLSX from 'xlsx';
+import type { StudentResult } from './schema';
+
+export interface SubjectInfo {
+  code: string;
+  name: string;
+  credits: string;
+}
+
+type Mark = NonNullable<StudentResult['marks']>[number];
+type CellValue = string | number | undefined;
+
+/**
+ * One column of an export: its header and how to read the cell from a row.
+ * Every format builds its rows from these definitions, so a header renamed
+ * here changes the Excel, ODS and CSV exports alike.
+ */
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => CellValue;
+}
+
+export const RESULT_COLUMNS: ExportColumn<StudentResult>[] = [
+  { header: 'Hall Ticket No', value: (result) => result.personalDetails?.hallTicketNo },
+  { header: 'Name', value: (result) => result.personalDetails?.name },
+  { header: 'Father\'s Name', value: (result) => result.personalDetails?.fatherName },
+  { header: 'Gender', value: (result) => result.personalDetails?.gender },
+  { header: 'Course', value: (result) => result.personalDetails?.course },
+  { header: 'SGPA', value: (result) => result.result?.sgpa },
+  { header: 'CGPA', value: (result) => result.result?.cgpa },
+];
+
+const resultColumn = (header: string) => RESULT_COLUMNS.find((column) => column.header === header)!;
+
+/**
+ * The summary columns that fit across the page of the PDF export.
+ */
+export const PDF_RESULT_COLUMNS: ExportColumn<StudentResult>[] = ['Hall Ticket No', 'Name', 'SGPA', 'CGPA'].map(resultColumn);
+
+export const MARK_COLUMNS: ExportColumn<{ result: StudentResult; mark: Mark }>[] = [
+  { header: 'Hall Ticket No', value: ({ result }) => result.personalDetails?.hallTicketNo },
+  { header: 'Name', value: ({ result }) => result.personalDetails?.name },
+  { header: 'Subject Code', value: ({ mark }) => mark.subCode },
+  { header: 'Subject Name', value: ({ mark }) => mark.subjectName },
+  { header: 'Credits', value: ({ mark }) => mark.credits },
+  { header: 'Grade Points', value: ({ mark }) => mark.gradePoints },
+  { header: 'Grade', value: ({ mark }) => mark.gradeSecurity },
+];
+
+export const SUBJECT_COLUMNS: ExportColumn<SubjectInfo>[] = [
+  { header: 'Subject Code', value: (subject) => subject.code },
+  { header: 'Subject Name', value: (subject) => subject.name },
+  { header: 'Credits', value: (subject) => subject.credits },
+];
+
+/**
+ * One item's cells in column order, for table layouts such as the PDF.
+ */
+export function columnCells<T>(item: T, columns: ExportColumn<T>[]): CellValue[] {
+  return columns.map((column) => column.value(item));
+}
+
+/**
+ * Turns items into header-keyed rows, ready for XLSX.utils.json_to_sheet.
+ */
+function toRows<T>(items: T[], columns: ExportColumn<T>[]): Array<Record<string, CellValue>> {
+  return items.map((item) => Object.fromEntries(columns.map((column) => [column.header, column.value(item)])));
+}
+
+/**
+ * A sheet built from column definitions; the header row is written even
+ * when there are no items.
+ */
+function columnSheet<T>(items: T[], columns: ExportColumn<T>[]): XLSX.WorkSheet {
+  return XLSX.utils.json_to_sheet(toRows(items, columns), { header: columns.map((column) => column.header) });
+}
+
+/**
+ * Lists every subject that appears in any student's marks, in the order
+ * first seen. Students from different branches may contribute different codes.
+ */
+export function collectSubjects(results: StudentResult[]): SubjectInfo[] {
+  const subjects = new Map<string, SubjectInfo>();
+
+  for (const result of results) {
+    for (const mark of result.marks ?? []) {
+      if (mark.subCode && !subjects.has(mark.subCode)) {
+        subjects.set(mark.subCode, {
+          code: mark.subCode,
+          name: mark.subjectName,
+          credits: mark.credits,
+        });
+      }
+    }
+  }
+
+  return Array.from(subjects.values());
+}
+
+function listMarks(results: StudentResult[]): Array<{ result: StudentResult; mark: Mark }> {
+  return results.flatMap((result) => (result.marks ?? []).map((mark) => ({ result, mark })));
+}
+
+/**
+ * The columns of the subject-wise sheet: the student, a grade and a
+ * grade-points column for every subject code, then SGPA and CGPA.
+ */
+export function subjectPivotColumns(subjects: SubjectInfo[]): ExportColumn<StudentResult>[] {
+  const markOf = (result: StudentResult, code: string) => result.marks?.find((m) => m.subCode === code);
+
+  return [
+    resultColumn('Hall Ticket No'),
+    resultColumn('Name'),
+    ...subjects.flatMap((subject): ExportColumn<StudentResult>[] => [
+      { header: `${subject.code} Grade`, value: (result) => markOf(result, subject.code)?.gradeSecurity ?? '' },
+      {
+        header: `${subject.code} GP`,
+        value: (result) => {
+          const mark = markOf(result, subject.code);
+          return mark ? (mark.gradePointsValue ?? mark.gradePoints) : '';
+        },
+      },
+    ]),
+    resultColumn('SGPA'),
+    resultColumn('CGPA'),
+  ];
+}
+
+/**
+ * One row per student with a grade and grade-points column for every subject
+ * code, ready for XLSX.utils.json_to_sheet.
+ */
+export function buildSubjectPivotRows(
+  results: StudentResult[],
+  subjects: SubjectInfo[] = collectSubjects(results)
+): Array<Record<string, CellValue>> {
+  return toRows(results.filter((result) => result.status === 'FOUND'), subjectPivotColumns(subjects));
+}
+
+/**
+ * The summary columns of the "Results" sheet, one row per student.
+ */
+export function buildResultRows(results: StudentResult[]): Array<Record<string, CellValue>> {
+  return toRows(results, RESULT_COLUMNS);
+}
+
+/**
+ * Builds the export workbook: the "Results" summary sheet, the subject-wise
+ * pivot, the long-format marks and the list of subjects.
+ */
+export function buildResultsWorkbook(results: StudentResult[]): XLSX.WorkBook {
+  const subjects = collectSubjects(results);
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, columnSheet(results, RESULT_COLUMNS), "Results");
+  XLSX.utils.book_append_sheet(
+    workbook,
+    columnSheet(results.filter((result) => result.status === 'FOUND'), subjectPivotColumns(subjects)),
+    "Subject-wise"
+  );
+  XLSX.utils.book_append_sheet(workbook, columnSheet(listMarks(results), MARK_COLUMNS), "Marks");
+  XLSX.utils.book_append_sheet(workbook, columnSheet(subjects, SUBJECT_COLUMNS), "Subjects");
+
+  return workbook;
+}
+
+export type ExportFormat = 'xlsx' | 'ods' | 'csv' | 'marks-csv' | 'json';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; fileSuffix: string; mimeType: string }> = {
+  'xlsx': { label: 'Excel', fileSuffix: '.xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  'ods': { label: 'ODS', fileSuffix: '.ods', mimeType: 'application/vnd.oasis.opendocument.spreadsheet' },
+  'csv': { label: 'CSV (summary)', fileSuffix: '.csv', mimeType: 'text/csv;charset=utf-8' },
+  'marks-csv': { label: 'CSV (marks)', fileSuffix: '_marks.csv', mimeType: 'text/csv;charset=utf-8' },
+  'json': { label: 'JSON', fileSuffix: '.json', mimeType: 'application/json' },
+};
+
+/**
+ * Serialises results in any export format. Spreadsheet formats hold the full
+ * workbook plus `extraSheets` (e.g. subtotals); the CSVs hold the summary or
+ * the long-format marks; JSON is the full StudentResult array, marks included.
+ */
+export function exportResults(
+  results: StudentResult[],
+  format: ExportFormat,
+  extraSheets: Array<{ name: string; rows: Array<Record<string, CellValue>> }> = []
+): string | ArrayBuffer {
+  switch (format) {
+    case 'xlsx':
+    case 'ods': {
+      const workbook = buildResultsWorkbook(results);
+      for (const sheet of extraSheets) {
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(sheet.rows), sheet.name);
+      }
+      return XLSX.write(workbook, { bookType: format, type: 'array' });
+    }
+    case 'csv':
+      return XLSX.utils.sheet_to_csv(columnSheet(results, RESULT_COLUMNS));
+    case 'marks-csv':
+      return XLSX.utils.sheet_to_csv(columnSheet(listMarks(results), MARK_COLUMNS));
+    case 'json':
+      return JSON.stringify(results, null, 2);
+  }
+}
@@ -0,0 +1,115 @@
+import { isBacklogGrade } from './grades';
+import type { StudentResult } from './schema';
+
+export type OutcomeFilter = 'all' | 'passed' | 'failed' | 'promoted' | 'absent' | 'withheld' | 'not-found';
+
+export interface ResultFilters {
+  search: string;
+  outcome: OutcomeFilter;
+  minSgpa: string;
+  maxSgpa: string;
+  // Subject code the student must have failed or been absent in
+  failedSubject: string;
+}
+
+export type SortKey = 'hallTicketNo' | 'name' | 'sgpa' | 'cgpa';
+
+export interface SortState {
+  key: SortKey;
+  direction: 'asc' | 'desc';
+}
+
+export const EMPTY_FILTERS: ResultFilters = {
+  search: '',
+  outcome: 'all',
+  minSgpa: '',
+  maxSgpa: '',
+  failedSubject: '',
+};
+
+export function hasActiveFilters(filters: ResultFilters): boolean {
+  return (Object.keys(EMPTY_FILTERS) as Array<keyof ResultFilters>).some(
+    (key) => filters[key] !== EMPTY_FILTERS[key]
+  );
+}
+
+function matchesOutcome(result: StudentResult, outcome: OutcomeFilter): boolean {
+  if (outcome === 'all') {
+    return true;
+  }
+  if (outcome === 'not-found') {
+    return result.status === 'NOT_FOUND';
+  }
+  return result.result?.outcome === outcome;
+}
+
+export function filterResults(results: StudentResult[], filters: ResultFilters): StudentResult[] {
+  const search = filters.search.trim().toLowerCase();
+  const minSgpa = parseFloat(filters.minSgpa);
+  const maxSgpa = parseFloat(filters.maxSgpa);
+
+  return results.filter((result) => {
+    if (search) {
+      const name = result.personalDetails?.name.toLowerCase() ?? '';
+      const htno = result.personalDetails?.hallTicketNo ?? '';
+      if (!name.includes(search) && !htno.includes(search)) {
+        return false;
+      }
+    }
+
+    if (!matchesOutcome(result, filters.outcome)) {
+      return false;
+    }
+
+    // A range filter only keeps students that have a numeric SGPA
+    if (!Number.isNaN(minSgpa) || !Number.isNaN(maxSgpa)) {
+      const sgpa = result.result?.sgpaValue;
+      if (sgpa == null || sgpa < (Number.isNaN(minSgpa) ? 0 : minSgpa) || sgpa > (Number.isNaN(maxSgpa) ? 10 : maxSgpa)) {
+        return false;
+      }
+    }
+
+    if (filters.failedSubject) {
+      const mark = result.marks?.find((m) => m.subCode === filters.failedSubject);
+      if (!mark || !isBacklogGrade(mark.grade)) {
+        return false;
+      }
+    }
+
+    return true;
+  });
+}
+
+/**
+ * Sorts a copy of the results. Rows without a value for the sort key
+ * (e.g. no numeric SGPA) always go last, whichever the direction.
+ */
+export function sortResults(results: StudentResult[], sort: SortState | null): StudentResult[] {
+  if (!sort) {
+    return results;
+  }
+
+  const value = (result: StudentResult): string | number | null => {
+    switch (sort.key) {
+      case 'hallTicketNo':
+        return result.personalDetails?.hallTicketNo || null;
+      case 'name':
+        return result.personalDetails?.name || null;
+      case 'sgpa':
+        return result.result?.sgpaValue ?? null;
+      case 'cgpa':
+        return result.result?.cgpaValue ?? null;
+    }
+  };
+
+  const direction = sort.direction === 'asc' ? 1 : -1;
+  return [...results].sort((a, b) => {
+    const x = value(a);
+    const y = value(b);
+    if (x === null || y === null) {
+      return x === y ? 0 : x === null ? 1 : -1;
+    }
+    const order = typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y));
+    return order * direction;
+  });
+}
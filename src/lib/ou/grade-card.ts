@@ -0,0 +1,86 @@
+import jsPDF from 'jspdf';
+import 'jspdf-autotable';
+import JSZip from 'jszip';
+import type { StudentResult } from './schema';
+
+/**
+ * Renders a memo-style grade card for one student: university header,
+ * personal details, the full marks table and the semester result.
+ */
+export function renderGradeCard(result: StudentResult): jsPDF {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const details = result.personalDetails;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text('OSMANIA UNIVERSITY', pageWidth / 2, 18, { align: 'center' });
+  doc.setFontSize(11);
+  doc.text('MEMORANDUM OF GRADES', pageWidth / 2, 26, { align: 'center' });
+  if (details?.course) {
+    doc.setFont('helvetica', 'normal');
+    doc.text(details.course, pageWidth / 2, 33, { align: 'center' });
+  }
+
+  (doc as any).autoTable({
+    body: [
+      ['Hall Ticket No.', details?.hallTicketNo ?? '', 'Gender', details?.gender ?? ''],
+      ['Name', details?.name ?? '', 'Father\'s Name', details?.fatherName ?? ''],
+    ],
+    startY: 40,
+    theme: 'grid',
+    styles: { fontSize: 9 },
+    columnStyles: { 0: { fontStyle: 'bold' }, 2: { fontStyle: 'bold' } },
+  });
+
+  (doc as any).autoTable({
+    head: [['Subject Code', 'Subject Name', 'Credits', 'Grade Points', 'Grade']],
+    body: (result.marks ?? []).map(mark => [
+      mark.subCode,
+      mark.subjectName,
+      mark.credits,
+      mark.gradePoints,
+      mark.gradeSecurity,
+    ]),
+    startY: (doc as any).lastAutoTable.finalY + 6,
+    theme: 'grid',
+    styles: { fontSize: 9 },
+  });
+
+  if (result.result) {
+    (doc as any).autoTable({
+      head: [['Semester', 'Result with SGPA', 'CGPA']],
+      body: [[result.result.semester, result.result.sgpa, result.result.cgpa || '-']],
+      startY: (doc as any).lastAutoTable.finalY + 6,
+      theme: 'grid',
+      styles: { fontSize: 9 },
+    });
+  }
+
+  doc.setFont('helvetica', 'italic');
+  doc.setFontSize(8);
+  doc.text(
+    'Extracted from the Osmania University results portal. Not an official memorandum.',
+    pageWidth / 2,
+    doc.internal.pageSize.getHeight() - 10,
+    { align: 'center' }
+  );
+
+  return doc;
+}
+
+/**
+ * Bundles one grade card PDF per found student into a ZIP, each named by
+ * hall ticket number.
+ */
+export async function buildGradeCardZip(results: StudentResult[]): Promise<Blob> {
+  const zip = new JSZip();
+
+  results
+    .filter(result => result.status === 'FOUND' && result.personalDetails?.hallTicketNo)
+    .forEach(result => {
+      zip.file(`${result.personalDetails!.hallTicketNo}.pdf`, renderGradeCard(result).output('arraybuffer'));
+    });
+
+  return zip.generateAsync({ type: 'blob' });
+}
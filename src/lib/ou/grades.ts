@@ -0,0 +1,60 @@
+import type { ResultOutcome } from './schema';
+
+/**
+ * Parses a plain numeric cell such as "3" or "8.36". Dashes, blanks and
+ * anything else non-numeric come back as null.
+ */
+export function parseNumber(raw: string): number | null {
+  const match = raw.trim().match(/^\d+(\.\d+)?$/);
+  return match ? parseFloat(match[0]) : null;
+}
+
+/**
+ * Splits the "Result with SGPA" cell ("PASSED-8.52", "PROMOTED", "FAILED", ...)
+ * into an outcome and the numeric SGPA when the page reports one.
+ */
+export function parseSgpa(raw: string): { outcome: ResultOutcome | null; sgpa: number | null } {
+  const text = raw.trim().toUpperCase();
+  const numberMatch = text.match(/(\d+(\.\d+)?)\s*$/);
+  const sgpa = numberMatch ? parseFloat(numberMatch[1]) : null;
+
+  if (text.startsWith('PASS')) {
+    return { outcome: 'passed', sgpa };
+  }
+  if (text.startsWith('PROMOTED')) {
+    return { outcome: 'promoted', sgpa };
+  }
+  if (text.startsWith('FAIL')) {
+    return { outcome: 'failed', sgpa };
+  }
+  if (text.startsWith('ABSENT')) {
+    return { outcome: 'absent', sgpa };
+  }
+  if (text.replace(/\s+/g, '').startsWith('WITHHELD')) {
+    return { outcome: 'withheld', sgpa };
+  }
+
+  // Some result pages print only the SGPA for a pass
+  if (sgpa !== null && text === numberMatch?.[0]) {
+    return { outcome: 'passed', sgpa };
+  }
+
+  return { outcome: null, sgpa };
+}
+
+/**
+ * Normalises a "Grade Secured" cell to an upper-case letter grade
+ * ("A", "B+", "F", "AB"), or null when the cell is empty.
+ */
+export function normalizeGrade(raw: string): string | null {
+  const grade = raw.trim().toUpperCase().replace(/\s+/g, '');
+  return grade || null;
+}
+
+/**
+ * True for the grades that leave a subject to be cleared in a supplementary
+ * exam: a fail or an absence.
+ */
+export function isBacklogGrade(grade: string | null): boolean {
+  return grade === 'F' || grade === 'AB';
+}
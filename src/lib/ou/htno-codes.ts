@@ -0,0 +1,24 @@
+/**
+ * Lookup tables used to label the parts of a hall ticket number. These are the
+ * defaults; users edit their own copy in the browser (see lib/htno-code-table).
+ * Unknown codes are still decoded, just shown without a name.
+ */
+export interface HtnoCodeTable {
+  colleges: Record<string, string>;
+  branches: Record<string, string>;
+}
+
+export const DEFAULT_CODE_TABLE: HtnoCodeTable = {
+  colleges: {
+    '1601': 'Chaitanya Bharathi Institute of Technology',
+    '1602': 'Vasavi College of Engineering',
+  },
+  branches: {
+    '732': 'Civil Engineering',
+    '733': 'Computer Science and Engineering',
+    '734': 'Electronics and Communication Engineering',
+    '735': 'Electrical and Electronics Engineering',
+    '736': 'Mechanical Engineering',
+    '737': 'Information Technology',
+  },
+};
@@ -0,0 +1,159 @@
+import { MAX_BATCH_SIZE } from './batch';
+import { DEFAULT_CODE_TABLE, type HtnoCodeTable } from './htno-codes';
+
+export function isValidHtno(htno: string): boolean {
+  return /^\d{12}$/.test(htno);
+}
+
+/**
+ * Expands an inclusive hall ticket range into zero-padded 12-digit numbers.
+ */
+export function expandHtnoRange(start: string, end: string): string[] {
+  const htnos: string[] = [];
+  const first = parseInt(start);
+  const last = parseInt(end);
+
+  for (let rollNo = first; rollNo <= last; rollNo++) {
+    htnos.push(rollNo.toString().padStart(12, '0'));
+  }
+
+  return htnos;
+}
+
+export function rangeSize(start: string, end: string): number {
+  return parseInt(end) - parseInt(start) + 1;
+}
+
+/**
+ * Parses a free-form list of hall tickets and ranges separated by commas,
+ * semicolons, spaces or newlines:
+ *   245521733150, 245521733152
+ *   245521733150-245521733210, 245521733301-312
+ * A range end shorter than 12 digits borrows the leading digits of its start.
+ * Tokens that are not valid 12-digit numbers or ranges are returned in `invalid`.
+ */
+export function parseHtnoList(text: string): { htnos: string[]; invalid: string[] } {
+  const htnos: string[] = [];
+  const invalid: string[] = [];
+
+  for (const token of text.split(/[\s,;]+/).filter(Boolean)) {
+    const range = token.match(/^(\d+)-(\d+)$/);
+    if (range) {
+      const start = range[1];
+      const end = start.slice(0, Math.max(start.length - range[2].length, 0)) + range[2];
+      const size = rangeSize(start, end);
+      if (!isValidHtno(start) || !isValidHtno(end) || size < 1 || size > MAX_BATCH_SIZE) {
+        invalid.push(token);
+      } else {
+        htnos.push(...expandHtnoRange(start, end));
+      }
+      continue;
+    }
+
+    if (isValidHtno(token)) {
+      htnos.push(token);
+    } else {
+      invalid.push(token);
+    }
+  }
+
+  return { htnos, invalid };
+}
+
+/**
+ * Removes duplicates and excluded hall tickets, keeping the original order.
+ */
+export function resolveHtnos(include: string[], exclude: string[]): string[] {
+  const excluded = new Set(exclude);
+  const seen = new Set<string>();
+
+  return include.filter((htno) => {
+    if (excluded.has(htno) || seen.has(htno)) {
+      return false;
+    }
+    seen.add(htno);
+    return true;
+  });
+}
+
+/**
+ * Pulls hall tickets out of spreadsheet rows (first row is the header). Uses
+ * the column whose header mentions a hall ticket or roll number, otherwise
+ * the first column that holds any 12-digit value.
+ */
+export function extractHtnosFromRows(rows: unknown[][]): string[] {
+  const cell = (value: unknown) => String(value ?? '').trim();
+  const [header = [], ...body] = rows;
+
+  let column = header.findIndex((value) => /hall|ticket|htno|roll/i.test(cell(value)));
+  if (column === -1) {
+    const width = Math.max(0, ...rows.map((row) => row.length));
+    column = Array.from({ length: width }, (_, i) => i)
+      .find((i) => rows.some((row) => isValidHtno(cell(row[i])))) ?? -1;
+    if (column === -1) {
+      return [];
+    }
+    // Without a recognisable header the first row may already be data
+    return rows.map((row) => cell(row[column])).filter(isValidHtno);
+  }
+
+  return body.map((row) => cell(row[column])).filter(isValidHtno);
+}
+
+export interface HtnoParts {
+  collegeCode: string;
+  collegeName: string | null;
+  admissionYear: number;
+  branchCode: string;
+  branchName: string | null;
+  roll: string;
+}
+
+/**
+ * Splits a hall ticket number into its encoded parts:
+ *   2455 21 733 150 -> college 2455, admitted 2021, branch 733, roll 150
+ * Returns null for anything that is not a 12-digit number.
+ */
+export function decodeHtno(htno: string, codes: HtnoCodeTable = DEFAULT_CODE_TABLE): HtnoParts | null {
+  if (!isValidHtno(htno)) {
+    return null;
+  }
+
+  const collegeCode = htno.slice(0, 4);
+  const branchCode = htno.slice(6, 9);
+
+  return {
+    collegeCode,
+    collegeName: codes.colleges[collegeCode] ?? null,
+    admissionYear: 2000 + parseInt(htno.slice(4, 6)),
+    branchCode,
+    branchName: codes.branches[branchCode] ?? null,
+    roll: htno.slice(9),
+  };
+}
+
+/**
+ * Checks that both ends of a range belong to the same college, admission year
+ * and branch, which is what a contiguous section range always looks like.
+ * Returns a description of the mismatch, or null when the range is consistent.
+ */
+export function validateHtnoRange(start: string, end: string): string | null {
+  const first = decodeHtno(start);
+  const last = decodeHtno(end);
+  if (!first || !last) {
+    return 'Hall ticket numbers must be exactly 12 digits';
+  }
+  if (rangeSize(start, end) < 1) {
+    return 'The ending roll number must not be before the starting roll number';
+  }
+  if (first.collegeCode !== last.collegeCode) {
+    return `The range spans two colleges (${first.collegeCode} and ${last.collegeCode})`;
+  }
+  if (first.admissionYear !== last.admissionYear) {
+    return `The range spans two admission years (${first.admissionYear} and ${last.admissionYear})`;
+  }
+  if (first.branchCode !== last.branchCode) {
+    return `The range spans two branches (${first.branchCode} and ${last.branchCode})`;
+  }
+  return null;
+}
@@ -0,0 +1,148 @@
+import * as XLSX from 'xlsx';
+import { z } from 'zod';
+import { normalizeGrade, parseNumber, parseSgpa } from './grades';
+import { StudentResultSchema, type StudentResult } from './schema';
+
+type Mark = NonNullable<StudentResult['marks']>[number];
+type SheetRow = Record<string, string>;
+
+/**
+ * Reads a file written by exportResults back into StudentResult objects:
+ * JSON as-is, or a workbook (XLSX, ODS, either CSV) from its sheets. Throws
+ * an Error with a message fit for the user when the file is not an export.
+ */
+export function importResults(data: ArrayBuffer, fileName: string): StudentResult[] {
+  if (fileName.toLowerCase().endsWith('.json')) {
+    return importJson(new TextDecoder().decode(data));
+  }
+  // raw keeps CSV cells as text, so 12-digit hall tickets are not read as numbers
+  return importWorkbook(XLSX.read(data, { raw: true }));
+}
+
+function importJson(text: string): StudentResult[] {
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const parsed = z.array(StudentResultSchema).safeParse(body);
+  if (!parsed.success) {
+    throw new Error('The JSON file is not a results export');
+  }
+  return parsed.data;
+}
+
+function readSheet(workbook: XLSX.WorkBook, name: string): SheetRow[] | null {
+  const sheet = workbook.Sheets[name];
+  return sheet ? XLSX.utils.sheet_to_json<SheetRow>(sheet, { raw: false, defval: '' }) : null;
+}
+
+function toMark(subCode: string, subjectName: string, credits: string, gradePoints: string, gradeSecurity: string): Mark {
+  return {
+    subCode,
+    subjectName,
+    credits,
+    gradePoints,
+    gradeSecurity,
+    creditsValue: parseNumber(credits),
+    gradePointsValue: parseNumber(gradePoints),
+    grade: normalizeGrade(gradeSecurity),
+  };
+}
+
+/**
+ * Marks from the long-format "Marks" sheet (or marks CSV), by hall ticket.
+ */
+function marksFromRows(rows: SheetRow[]): Map<string, Mark[]> {
+  const marks = new Map<string, Mark[]>();
+  for (const row of rows) {
+    const htno = row['Hall Ticket No'].trim();
+    const mark = toMark(row['Subject Code'], row['Subject Name'], row['Credits'], row['Grade Points'], row['Grade']);
+    marks.set(htno, [...(marks.get(htno) ?? []), mark]);
+  }
+  return marks;
+}
+
+/**
+ * Marks rebuilt from the "Subject-wise" pivot and the "Subjects" sheet, for
+ * workbooks exported before the "Marks" sheet existed.
+ */
+function marksFromPivot(pivot: SheetRow[], subjects: SheetRow[]): Map<string, Mark[]> {
+  const marks = new Map<string, Mark[]>();
+  for (const row of pivot) {
+    const studentMarks = subjects
+      .filter((subject) => row[`${subject['Subject Code']} Grade`])
+      .map((subject) => toMark(
+        subject['Subject Code'],
+        subject['Subject Name'],
+        subject['Credits'],
+        row[`${subject['Subject Code']} GP`] ?? '',
+        row[`${subject['Subject Code']} Grade`]
+      ));
+    marks.set(row['Hall Ticket No'].trim(), studentMarks);
+  }
+  return marks;
+}
+
+function importWorkbook(workbook: XLSX.WorkBook): StudentResult[] {
+  const firstSheet = readSheet(workbook, workbook.SheetNames[0]) ?? [];
+  const markRows = readSheet(workbook, 'Marks');
+  const pivotRows = readSheet(workbook, 'Subject-wise');
+  const subjectRows = readSheet(workbook, 'Subjects');
+
+  // A marks CSV has no summary rows, so the students come from the marks themselves
+  const isMarksOnly = !workbook.Sheets['Results'] && firstSheet.length > 0 && 'Subject Code' in firstSheet[0];
+  const summaryRows = readSheet(workbook, 'Results') ?? (isMarksOnly ? [] : firstSheet);
+
+  if (!summaryRows.concat(isMarksOnly ? firstSheet : []).every((row) => 'Hall Ticket No' in row)) {
+    throw new Error('The file has no "Hall Ticket No" column');
+  }
+
+  // null when the file carries no marks at all (a summary CSV)
+  const marks = isMarksOnly
+    ? marksFromRows(firstSheet)
+    : markRows
+      ? marksFromRows(markRows)
+      : pivotRows && subjectRows
+        ? marksFromPivot(pivotRows, subjectRows)
+        : null;
+
+  const students = isMarksOnly
+    ? Array.from(new Map(firstSheet.map((row) => [row['Hall Ticket No'].trim(), row])).values())
+    : summaryRows;
+
+  return students.map((row) => {
+    const htno = row['Hall Ticket No'].trim();
+    const sgpa = row['SGPA'] ?? '';
+    const cgpa = row['CGPA'] ?? '';
+    const studentMarks = marks ? (marks.get(htno) ?? []) : undefined;
+    const personalDetails = {
+      hallTicketNo: htno,
+      name: row['Name'] ?? '',
+      fatherName: row['Father\'s Name'] ?? '',
+      gender: row['Gender'] ?? '',
+      course: row['Course'] ?? '',
+    };
+
+    // Not-found rows are exported with only the hall ticket filled in
+    if (!personalDetails.name && !sgpa && !studentMarks?.length) {
+      return StudentResultSchema.parse({
+        status: 'NOT_FOUND',
+        message: `Hall Ticket Number "${htno}" is not found.`,
+        personalDetails,
+      });
+    }
+
+    const { outcome, sgpa: sgpaValue } = parseSgpa(sgpa);
+    return StudentResultSchema.parse({
+      status: 'FOUND',
+      personalDetails,
+      marks: studentMarks,
+      result: sgpa || cgpa
+        ? { semester: '', sgpa, cgpa, outcome, sgpaValue, cgpaValue: parseNumber(cgpa) }
+        : undefined,
+    });
+  });
+}
@@ -0,0 +1,273 @@
+/**
+ * A stand-in for the OU results portal, used by the dev-only /api/mock-ou
+ * route. Pages follow the layout of the saved fixtures and are generated
+ * from the hall ticket number, so the same hall ticket always gets the same
+ * student and grades.
+ */
+
+export type MockScenario =
+  | 'mixed'
+  | 'found'
+  | 'not-found'
+  | 'failed'
+  | 'slow'
+  | 'timeout'
+  | 'error'
+  | 'busy'
+  | 'malformed';
+
+export const MOCK_SCENARIOS: Record<MockScenario, string> = {
+  'mixed': 'Mostly passes, with not-found, failed and malformed pages spread over the range',
+  'found': 'Every hall ticket passes',
+  'not-found': 'Every hall ticket is not found',
+  'failed': 'Every hall ticket fails one or more subjects',
+  'slow': 'Like mixed, answered after a delay (`delay` query parameter, default 3000 ms)',
+  'timeout': 'Never answers, so the request times out',
+  'error': 'Every request gets HTTP 500',
+  'busy': 'Every request gets HTTP 503 with a Retry-After of 5 seconds',
+  'malformed': 'A result page whose tables were renamed, as after a portal redesign',
+};
+
+export const DEFAULT_MOCK_DELAY_MS = 3000;
+
+export interface MockResponse {
+  status: number;
+  html: string;
+  headers?: Record<string, string>;
+  /** Milliseconds to wait before answering; null means never answer */
+  delayMs: number | null;
+}
+
+const SUBJECTS = [
+  { code: 'PC401CS', name: 'OPERATING SYSTEMS', credits: 3 },
+  { code: 'PC402CS', name: 'DATABASE MANAGEMENT SYSTEMS', credits: 3 },
+  { code: 'PC403CS', name: 'DESIGN AND ANALYSIS OF ALGORITHMS', credits: 3 },
+  { code: 'PC404CS', name: 'SOFTWARE ENGINEERING', credits: 3 },
+  { code: 'HS401EG', name: 'EFFECTIVE TECHNICAL COMMUNICATION IN ENGLISH', credits: 2 },
+  { code: 'PC451CS', name: 'OPERATING SYSTEMS LAB', credits: 1 },
+  { code: 'PC452CS', name: 'DATABASE MANAGEMENT SYSTEMS LAB', credits: 1 },
+];
+
+const GRADES = [
+  { grade: 'S', points: 10 },
+  { grade: 'A', points: 9 },
+  { grade: 'B', points: 8 },
+  { grade: 'C', points: 7 },
+  { grade: 'D', points: 6 },
+  { grade: 'E', points: 5 },
+];
+
+const FIRST_NAMES = {
+  MALE: ['AKHIL', 'CHARAN', 'ESHWAR', 'GANESH', 'IMRAN', 'KIRAN', 'MAHESH', 'RAHUL'],
+  FEMALE: ['BHAVANA', 'DIVYA', 'FARHA', 'HARIKA', 'JYOTHI', 'LAVANYA', 'NIKHITA', 'SNEHA'],
+};
+const SURNAMES = ['REDDY', 'GOUD', 'RAO', 'SHARMA', 'NAIDU', 'KHAN', 'VARMA', 'CHARY'];
+
+/**
+ * A small deterministic generator seeded by the hall ticket number.
+ */
+function seededRandom(htno: string): () => number {
+  let seed = 2166136261;
+  for (const char of htno) {
+    seed = Math.imul(seed ^ char.charCodeAt(0), 16777619) >>> 0;
+  }
+  // mulberry32, so neighbouring hall tickets still get unrelated students
+  return () => {
+    seed = (seed + 0x6d2b79f5) >>> 0;
+    let t = Math.imul(seed ^ (seed >>> 15), seed | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+  };
+}
+
+const pick = <T>(random: () => number, items: T[]): T => items[Math.floor(random() * items.length)];
+
+const cell = (text: string | number, width: string, attributes = ' align="center"') =>
+  `    <td width="${width}"${attributes}><font face="Verdana" size="2">${text}</font></td>`;
+
+const labelCell = (text: string, width: string, attributes = '') =>
+  `    <td width="${width}"${attributes}><b><font face="Verdana" size="2">${text}</font></b></td>`;
+
+function page(body: string): string {
+  return `<html>
+<head>
+<meta http-equiv="Content-Type" content="text/html; charset=windows-1252">
+<title>OSMANIA UNIVERSITY - RESULTS</title>
+</head>
+<body bgcolor="#FFFFFF">
+<table border="0" cellpadding="0" cellspacing="0" width="100%" id="AutoNumber1">
+  <tr>
+    <td width="100%" align="center"><b><font face="Verdana" size="4" color="#800000">OSMANIA UNIVERSITY</font></b></td>
+  </tr>
+  <tr>
+    <td width="100%" align="center"><b><font face="Verdana" size="2" color="#000080">B.E. (CBCS) IV SEMESTER (MAIN) EXAMINATIONS, JULY 2025 (MOCK)</font></b></td>
+  </tr>
+</table>
+<table border="0" cellpadding="0" cellspacing="0" width="100%" id="AutoNumber2">
+  <tr>
+    <td width="100%" align="center"><font face="Verdana" size="2">Memorandum of Grades</font></td>
+  </tr>
+</table>
+${body}
+<table border="0" cellpadding="0" cellspacing="0" width="100%" id="AutoNumber6">
+  <tr>
+    <td width="100%" align="center"><font face="Verdana" size="1">Note: The University is not responsible for any inadvertent error that may have crept in the results being published on the net.</font></td>
+  </tr>
+</table>
+</body>
+</html>
+`;
+}
+
+export function renderNotFoundPage(htno: string): string {
+  return page(`<table border="0" cellpadding="0" cellspacing="0" width="100%">
+  <tr>
+    <td width="100%" align="center"><b><font face="Verdana" size="3" color="#FF0000">Hall Ticket Number ${htno} Is Not Found</font></b></td>
+  </tr>
+</table>`);
+}
+
+/**
+ * Renders a result page for the hall ticket. With `failing`, one to three
+ * subjects are graded F and the semester result is FAILED; `tableIdPrefix`
+ * renames the tables to imitate a layout change.
+ */
+export function renderResultPage(
+  htno: string,
+  { failing = false, tableIdPrefix = 'AutoNumber' }: { failing?: boolean; tableIdPrefix?: string } = {}
+): string {
+  const random = seededRandom(htno);
+  const gender = random() < 0.5 ? 'MALE' : 'FEMALE';
+  const surname = pick(random, SURNAMES);
+  const name = `${pick(random, FIRST_NAMES[gender])} ${surname}`;
+  const fatherName = `${pick(random, FIRST_NAMES.MALE)} ${surname}`;
+
+  const failedCount = failing ? 1 + Math.floor(random() * 3) : 0;
+  const marks = SUBJECTS.map((subject, index) => {
+    const { grade, points } = index < failedCount ? { grade: 'F', points: 0 } : pick(random, GRADES);
+    return { ...subject, grade, points };
+  });
+
+  const credits = marks.reduce((sum, mark) => sum + mark.credits, 0);
+  const sgpa = marks.reduce((sum, mark) => sum + mark.credits * mark.points, 0) / credits;
+  const earlierSgpas = [1, 2, 3].map(() => 6 + random() * 4);
+  const semesters = [
+    ...earlierSgpas.map((value) => ({ result: `PASSED-${value.toFixed(2)}`, value })),
+    failing ? { result: 'FAILED', value: null } : { result: `PASSED-${sgpa.toFixed(2)}`, value: sgpa },
+  ];
+
+  let sgpaSum = 0;
+  const resultRows = semesters.map((semester, index) => {
+    if (semester.value !== null) {
+      sgpaSum += semester.value;
+    }
+    const cgpa = semester.value === null ? '' : (sgpaSum / (index + 1)).toFixed(2);
+    return `  <tr>
+${cell(index + 1, '33%')}
+${cell(semester.result, '34%')}
+${cell(cgpa, '33%')}
+  </tr>`;
+  });
+
+  const markRows = marks.map((mark) => `  <tr>
+${cell(mark.code, '12%')}
+${cell(mark.name, '48%', '')}
+${cell(mark.credits, '12%')}
+${cell(mark.points, '14%')}
+${cell(mark.grade, '14%')}
+  </tr>`);
+
+  return page(`<table border="1" cellpadding="2" cellspacing="0" width="100%" id="${tableIdPrefix}3" bordercolor="#C0C0C0">
+  <tr>
+${labelCell('Hall Ticket No.', '20%')}
+${labelCell(htno, '30%')}
+${labelCell('Gender', '20%')}
+${labelCell(gender, '30%')}
+  </tr>
+  <tr>
+${labelCell('Name', '20%')}
+${labelCell(name, '30%')}
+${labelCell('Father\'s Name', '20%')}
+${labelCell(fatherName, '30%')}
+  </tr>
+  <tr>
+${labelCell('Course', '20%')}
+${labelCell('B.E.(CSE)', '80%', ' colspan="3"')}
+  </tr>
+</table>
+<table border="1" cellpadding="2" cellspacing="0" width="100%" id="${tableIdPrefix}4" bordercolor="#C0C0C0">
+  <tr>
+${labelCell('Marks Details', '100%', ' colspan="5" align="center"')}
+  </tr>
+  <tr>
+${labelCell('Sub Code', '12%', ' align="center"')}
+${labelCell('Subject Name', '48%', ' align="center"')}
+${labelCell('Credits', '12%', ' align="center"')}
+${labelCell('Grade Points', '14%', ' align="center"')}
+${labelCell('Grade Secured', '14%', ' align="center"')}
+  </tr>
+${markRows.join('\n')}
+</table>
+<table border="1" cellpadding="2" cellspacing="0" width="100%" id="${tableIdPrefix}5" bordercolor="#C0C0C0">
+  <tr>
+${labelCell('Result', '100%', ' colspan="3" align="center"')}
+  </tr>
+  <tr>
+${labelCell('Semester', '33%', ' align="center"')}
+${labelCell('Result with SGPA', '34%', ' align="center"')}
+${labelCell('CGPA', '33%', ' align="center"')}
+  </tr>
+${resultRows.join('\n')}
+</table>`);
+}
+
+/**
+ * The page a "mixed" run serves for a hall ticket, chosen by its last digits
+ * so a range covers every kind: roughly one in ten is not found, one in ten
+ * fails and one in twenty-five has a changed layout.
+ */
+function mixedPage(htno: string): string {
+  const serial = Number(htno.slice(-3));
+  if (serial % 10 === 7) {
+    return renderNotFoundPage(htno);
+  }
+  if (serial % 25 === 11) {
+    return renderResultPage(htno, { tableIdPrefix: 'ResultTable' });
+  }
+  return renderResultPage(htno, { failing: serial % 10 === 3 });
+}
+
+/**
+ * What the mock portal answers for a hall ticket in the given scenario.
+ */
+export function mockResponse(scenario: MockScenario, htno: string, delayMs = DEFAULT_MOCK_DELAY_MS): MockResponse {
+  switch (scenario) {
+    case 'mixed':
+      return { status: 200, html: mixedPage(htno), delayMs: 0 };
+    case 'found':
+      return { status: 200, html: renderResultPage(htno), delayMs: 0 };
+    case 'not-found':
+      return { status: 200, html: renderNotFoundPage(htno), delayMs: 0 };
+    case 'failed':
+      return { status: 200, html: renderResultPage(htno, { failing: true }), delayMs: 0 };
+    case 'slow':
+      return { status: 200, html: mixedPage(htno), delayMs };
+    case 'timeout':
+      return { status: 200, html: '', delayMs: null };
+    case 'error':
+      return { status: 500, html: '<html><body>Internal Server Error</body></html>', delayMs: 0 };
+    case 'busy':
+      return {
+        status: 503,
+        html: '<html><body>Service Unavailable</body></html>',
+        headers: { 'Retry-After': '5' },
+        delayMs: 0,
+      };
+    case 'malformed':
+      return { status: 200, html: renderResultPage(htno, { tableIdPrefix: 'ResultTable' }), delayMs: 0 };
+  }
+}
+
+export function isMockScenario(value: string): value is MockScenario {
+  return Object.hasOwn(MOCK_SCENARIOS, value);
+}
@@ -0,0 +1,106 @@
+import { z } from 'zod';
+import { ERROR_CODES } from './errors';
+// Importing the schemas registers them (by `id`) in zod's global registry
+import './schema';
+
+const ref = (id: string) => ({ $ref: `#/components/schemas/${id}` });
+
+const errorResponses = (codes: Array<keyof typeof ERROR_CODES>) => {
+  const byStatus = new Map<number, string[]>();
+  for (const code of codes) {
+    const status = ERROR_CODES[code].status;
+    byStatus.set(status, [...(byStatus.get(status) ?? []), code]);
+  }
+  return Object.fromEntries(Array.from(byStatus, ([status, statusCodes]) => [
+    String(status),
+    {
+      description: statusCodes.join(', '),
+      content: { 'application/json': { schema: ref('ApiError') } },
+    },
+  ]));
+};
+
+const UPSTREAM_ERRORS = [
+  'UPSTREAM_BUSY',
+  'UPSTREAM_TIMEOUT',
+  'UPSTREAM_NETWORK_ERROR',
+  'UPSTREAM_HTTP_ERROR',
+  'PARSE_FAILED',
+  'INTERNAL_ERROR',
+] as const;
+
+/**
+ * Builds the OpenAPI 3.1 document for the results API from the shared
+ * schemas, so the published contract cannot drift from what the routes check.
+ */
+export function buildOpenApiDocument() {
+  const { schemas } = z.toJSONSchema(z.globalRegistry, {
+    uri: (id) => `#/components/schemas/${id}`,
+    io: 'input',
+  });
+  // Components are addressed by their key, not by their own $id/$schema
+  for (const schema of Object.values(schemas)) {
+    delete schema.$schema;
+    delete schema.$id;
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'OU Results Extractor API',
+      version: '1.0.0',
+      description: 'Fetches and parses Osmania University results pages. Every error response uses the ApiError envelope.',
+    },
+    paths: {
+      '/api/results': {
+        post: {
+          summary: 'Fetch the result of one hall ticket',
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: ref('ResultRequest') } },
+          },
+          responses: {
+            '200': {
+              description: 'The parsed result',
+              content: { 'application/json': { schema: ref('ResultResponse') } },
+            },
+            ...errorResponses([
+              'INVALID_REQUEST',
+              'INVALID_HTNO',
+              'INVALID_URL',
+              'HOST_NOT_ALLOWED',
+              'RATE_LIMITED',
+              'NOT_FOUND',
+              ...UPSTREAM_ERRORS,
+            ]),
+          },
+        },
+      },
+      '/api/results/batch': {
+        post: {
+          summary: 'Fetch a range or list of hall tickets as a stream',
+          description: 'Streams one BatchLine per hall ticket as newline-delimited JSON, in completion order. A NOT_FOUND page arrives as a data line; fetch failures arrive as ApiError lines with the hall ticket.',
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: ref('BatchRequest') } },
+          },
+          responses: {
+            '200': {
+              description: 'One BatchLine per line',
+              content: { 'application/x-ndjson': { schema: ref('BatchLine') } },
+            },
+            ...errorResponses([
+              'INVALID_REQUEST',
+              'INVALID_HTNO',
+              'INVALID_URL',
+              'HOST_NOT_ALLOWED',
+              'BATCH_TOO_LARGE',
+              'RATE_LIMITED',
+            ]),
+          },
+        },
+      },
+    },
+    components: { schemas },
+  };
+}
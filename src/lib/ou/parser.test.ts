@@ -0,0 +1,204 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseResultPage } from './parser';
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, 'fixtures', `${name}.html`), 'utf8');
+
+// Subject code, grade as printed and normalised grade, in table order
+const gradesOf = (marks: ReturnType<typeof parseResultPage>['marks']) =>
+  marks?.map((mark) => [mark.subCode, mark.gradeSecurity, mark.grade]);
+
+describe('parseResultPage', () => {
+  it('parses a passed result', () => {
+    const result = parseResultPage(fixture('found'), '245521733150');
+
+    assert.equal(result.status, 'FOUND');
+    assert.deepEqual(result.personalDetails, {
+      hallTicketNo: '245521733150',
+      name: 'AKHIL REDDY KOMMIDI',
+      fatherName: 'SRINIVAS REDDY KOMMIDI',
+      gender: 'MALE',
+      course: 'B.E.(CSE)',
+    });
+    assert.equal(result.marks?.length, 7);
+    assert.deepEqual(result.marks?.[0], {
+      subCode: 'PC401CS',
+      subjectName: 'OPERATING SYSTEMS',
+      credits: '3',
+      gradePoints: '9',
+      gradeSecurity: 'A',
+      creditsValue: 3,
+      gradePointsValue: 9,
+      grade: 'A',
+    });
+    assert.deepEqual(gradesOf(result.marks), [
+      ['PC401CS', 'A', 'A'],
+      ['PC402CS', 'B', 'B'],
+      ['PC403CS', 'S', 'S'],
+      ['PC404CS', 'A', 'A'],
+      ['HS401EG', 'B', 'B'],
+      ['PC451CS', 'S', 'S'],
+      ['PC452CS', 'S', 'S'],
+    ]);
+    assert.deepEqual(result.result, {
+      semester: '4',
+      sgpa: 'PASSED-8.95',
+      cgpa: '8.36',
+      outcome: 'passed',
+      sgpaValue: 8.95,
+      cgpaValue: 8.36,
+    });
+    assert.equal(result.history?.length, 4);
+    assert.equal(result.degraded, undefined);
+  });
+
+  it('keeps the hall ticket of a not found page', () => {
+    const result = parseResultPage(fixture('not-found'), '245521733199');
+
+    assert.equal(result.status, 'NOT_FOUND');
+    assert.equal(result.message, 'Hall Ticket Number "245521733199" is not found.');
+    assert.deepEqual(result.personalDetails, {
+      hallTicketNo: '245521733199',
+      name: '',
+      fatherName: '',
+      gender: '',
+      course: '',
+    });
+    assert.equal(result.marks, undefined);
+    assert.equal(result.result, undefined);
+  });
+
+  it('parses failed subjects and a FAILED result without SGPA', () => {
+    const result = parseResultPage(fixture('failed-subjects'), '245521733152');
+
+    assert.equal(result.status, 'FOUND');
+    assert.deepEqual(result.personalDetails, {
+      hallTicketNo: '245521733152',
+      name: 'BHAVANA GOUD',
+      fatherName: 'RAMESH GOUD',
+      gender: 'FEMALE',
+      course: 'B.E.(CSE)',
+    });
+    assert.deepEqual(gradesOf(result.marks), [
+      ['PC401CS', 'D', 'D'],
+      ['PC402CS', 'F', 'F'],
+      ['PC403CS', 'E', 'E'],
+      ['PC404CS', 'F', 'F'],
+      ['HS401EG', 'C', 'C'],
+      ['PC451CS', 'A', 'A'],
+      ['PC452CS', 'B', 'B'],
+    ]);
+    assert.equal(result.marks?.[1].gradePointsValue, 0);
+    assert.deepEqual(result.result, {
+      semester: '4',
+      sgpa: 'FAILED',
+      cgpa: '',
+      outcome: 'failed',
+      sgpaValue: null,
+      cgpaValue: null,
+    });
+  });
+
+  it('normalises Ab grades of an absent result', () => {
+    const result = parseResultPage(fixture('absent'), '245521733157');
+
+    assert.equal(result.status, 'FOUND');
+    assert.deepEqual(result.personalDetails, {
+      hallTicketNo: '245521733157',
+      name: 'CHARAN TEJA MUDIRAJ',
+      fatherName: 'VENKATESH MUDIRAJ',
+      gender: 'MALE',
+      course: 'B.E.(CSE)',
+    });
+    assert.deepEqual(gradesOf(result.marks), [
+      ['PC401CS', 'Ab', 'AB'],
+      ['PC402CS', 'Ab', 'AB'],
+      ['PC403CS', 'Ab', 'AB'],
+      ['PC404CS', 'Ab', 'AB'],
+      ['HS401EG', 'Ab', 'AB'],
+      ['PC451CS', 'B', 'B'],
+      ['PC452CS', 'B', 'B'],
+    ]);
+    assert.deepEqual(result.result, {
+      semester: '4',
+      sgpa: 'ABSENT',
+      cgpa: '',
+      outcome: 'absent',
+      sgpaValue: null,
+      cgpaValue: null,
+    });
+  });
+
+  it('parses a promoted result', () => {
+    const result = parseResultPage(fixture('promoted'), '245524733161');
+
+    assert.equal(result.status, 'FOUND');
+    assert.deepEqual(result.personalDetails, {
+      hallTicketNo: '245524733161',
+      name: 'DIVYA SREE PALLE',
+      fatherName: 'NARSIMHA PALLE',
+      gender: 'FEMALE',
+      course: 'B.E.(CSE)',
+    });
+    assert.deepEqual(gradesOf(result.marks), [
+      ['BS201MT', 'F', 'F'],
+      ['BS202PH', 'C', 'C'],
+      ['ES203CS', 'B', 'B'],
+      ['HS204EG', 'A', 'A'],
+      ['ES251CS', 'S', 'S'],
+    ]);
+    assert.deepEqual(result.result, {
+      semester: '2',
+      sgpa: 'PROMOTED',
+      cgpa: '',
+      outcome: 'promoted',
+      sgpaValue: null,
+      cgpaValue: null,
+    });
+    assert.equal(result.history?.length, 2);
+  });
+
+  it('parses a withheld result with no marks without flagging it', () => {
+    const result = parseResultPage(fixture('withheld'), '245521733163');
+
+    assert.equal(result.status, 'FOUND');
+    assert.deepEqual(result.personalDetails, {
+      hallTicketNo: '245521733163',
+      name: 'EMMANUEL RAJ',
+      fatherName: 'JOSEPH RAJ',
+      gender: 'MALE',
+      course: 'B.E.(CSE)',
+    });
+    assert.deepEqual(result.marks, []);
+    assert.deepEqual(result.result, {
+      semester: '4',
+      sgpa: 'WITHHELD',
+      cgpa: '',
+      outcome: 'withheld',
+      sgpaValue: null,
+      cgpaValue: null,
+    });
+    assert.equal(result.degraded, undefined);
+  });
+
+  it('flags a page without personal details and keeps the requested hall ticket', () => {
+    const result = parseResultPage(fixture('malformed'), '245521733150');
+
+    assert.equal(result.status, 'FOUND');
+    assert.equal(result.degraded, true);
+    assert.deepEqual(result.layoutIssues, [
+      { section: 'personalDetails', problem: 'missing', message: 'Personal details table (#AutoNumber3) not found' },
+    ]);
+    assert.deepEqual(result.personalDetails, {
+      hallTicketNo: '245521733150',
+      name: '',
+      fatherName: '',
+      gender: '',
+      course: '',
+    });
+    assert.equal(result.marks?.length, 7);
+    assert.equal(result.result?.sgpa, 'PASSED-8.95');
+  });
+});
@@ -0,0 +1,173 @@
+import { load } from 'cheerio';
+import { ResultError } from './errors';
+import { normalizeGrade, parseNumber, parseSgpa } from './grades';
+import type { LayoutIssue, SemesterResult, StudentResult } from './schema';
+
+export function cleanName(fullName: string, fatherName: string): string {
+  let cleanedName = fullName.replace(/Credits/g, '').trim();
+  
+  if (fatherName && cleanedName.endsWith(fatherName)) {
+    cleanedName = cleanedName.slice(0, -fatherName.length).trim();
+  }
+  
+  return cleanedName;
+}
+
+/**
+ * Parses a raw OU result page into a StudentResult. Sections that are
+ * missing or unreadable are listed in `layoutIssues` and the result is
+ * marked `degraded`, since that usually means the portal layout changed.
+ * Throws a PARSE_FAILED ResultError when the page is too short to be a
+ * result page at all.
+ */
+export function parseResultPage(html: string, htno: string): StudentResult {
+  // Basic HTML validation
+  if (!html || html.length < 100) {
+    throw new ResultError('PARSE_FAILED', 'Invalid response received from server');
+  }
+
+  const $ = load(html);
+
+  // Check for "not found" message
+  const notFoundText = $('font:contains("Is Not Found")').text();
+  if (notFoundText) {
+    // Keep the hall ticket that was looked up, so the row can still be identified
+    return {
+      status: 'NOT_FOUND',
+      message: `Hall Ticket Number "${htno}" is not found.`,
+      personalDetails: { hallTicketNo: htno, name: '', fatherName: '', gender: '', course: '' }
+    };
+  }
+
+  const studentResult: StudentResult = {
+    status: 'FOUND',
+  };
+  const issues: LayoutIssue[] = [];
+
+  // Extract personal details
+  const personalDetailsTable = $('#AutoNumber3');
+  if (personalDetailsTable.length) {
+    const fatherName = personalDetailsTable
+      .find('td:contains("Father")')
+      .next()
+      .find('font')
+      .text()
+      .trim();
+
+    const rawName = personalDetailsTable
+      .find('td:contains("Name")')
+      .next()
+      .find('font')
+      .text()
+      .trim();
+
+    const cleanedName = cleanName(rawName, fatherName);
+    const hallTicketNo = personalDetailsTable.find('td:contains("Hall Ticket No.")').next().find('font').text().trim();
+
+    studentResult.personalDetails = {
+      hallTicketNo: hallTicketNo || htno,
+      name: cleanedName,
+      fatherName: fatherName,
+      gender: personalDetailsTable.find('td:contains("Gender")').next().find('font').text().trim(),
+      course: personalDetailsTable.find('td:contains("Course")').next().find('font').text().trim(),
+    };
+
+    if (!hallTicketNo || !cleanedName) {
+      issues.push({ section: 'personalDetails', problem: 'malformed', message: 'Personal details have no hall ticket number or name' });
+    }
+  } else {
+    // As with not found pages, the requested hall ticket keeps the row identifiable
+    studentResult.personalDetails = { hallTicketNo: htno, name: '', fatherName: '', gender: '', course: '' };
+    issues.push({ section: 'personalDetails', problem: 'missing', message: 'Personal details table (#AutoNumber3) not found' });
+  }
+
+  // Extract marks
+  const marksTable = $('#AutoNumber4');
+  if (marksTable.length) {
+    const marks: StudentResult['marks'] = [];
+    $('table#AutoNumber4 tr').each((i, elem) => {
+      if (i > 1) { // Skip header rows
+        const tds = $(elem).find('td');
+        if (tds.length === 5) {
+          const credits = $(tds[2]).text().trim();
+          const gradePoints = $(tds[3]).text().trim();
+          const gradeSecurity = $(tds[4]).text().trim();
+          marks.push({
+            subCode: $(tds[0]).text().trim(),
+            subjectName: $(tds[1]).text().trim(),
+            credits,
+            gradePoints,
+            gradeSecurity,
+            creditsValue: parseNumber(credits),
+            gradePointsValue: parseNumber(gradePoints),
+            grade: normalizeGrade(gradeSecurity),
+          });
+        }
+      }
+    });
+    studentResult.marks = marks;
+  } else {
+    issues.push({ section: 'marks', problem: 'missing', message: 'Marks table (#AutoNumber4) not found' });
+  }
+
+  // Extract result
+  const resultTable = $('#AutoNumber5');
+  if (resultTable.length) {
+    const toSemesterResult = (cells: ReturnType<typeof $>): SemesterResult => {
+      const sgpa = cells.eq(1).text().trim();
+      const cgpa = cells.eq(2).text().trim();
+      const { outcome, sgpa: sgpaValue } = parseSgpa(sgpa);
+      return {
+        semester: cells.eq(0).text().trim(),
+        sgpa,
+        cgpa,
+        outcome,
+        sgpaValue,
+        cgpaValue: parseNumber(cgpa),
+      };
+    };
+
+    const resultRows = $('table#AutoNumber5 tr');
+
+    // Every semester row below the two header rows, oldest first
+    const history: SemesterResult[] = [];
+    resultRows.each((i, elem) => {
+      const tds = $(elem).find('td');
+      if (i > 1 && tds.first().text().trim()) {
+        history.push(toSemesterResult(tds));
+      }
+    });
+    studentResult.history = history;
+
+    let lastValidRow;
+    for (let i = resultRows.length - 1; i >= 0; i--) {
+      const row = resultRows.eq(i);
+      if (row.find('td').first().text().trim()) {
+        lastValidRow = row;
+        break;
+      }
+    }
+    
+    if (lastValidRow) {
+      studentResult.result = toSemesterResult(lastValidRow.find('td'));
+    }
+
+    if (!studentResult.result?.sgpa) {
+      issues.push({ section: 'result', problem: 'malformed', message: 'Result table has no semester result' });
+    }
+  } else {
+    issues.push({ section: 'result', problem: 'missing', message: 'Result table (#AutoNumber5) not found' });
+  }
+
+  // Withheld results are published without marks, so an empty table is expected there
+  if (studentResult.marks?.length === 0 && studentResult.result?.outcome !== 'withheld') {
+    issues.push({ section: 'marks', problem: 'malformed', message: 'Marks table has no subject rows' });
+  }
+
+  if (issues.length > 0) {
+    studentResult.degraded = true;
+    studentResult.layoutIssues = issues;
+  }
+
+  return studentResult;
+}
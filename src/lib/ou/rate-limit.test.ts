@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextRequest } from 'next/server';
+import { SHARED_CLIENT_KEY, clientKey, takeRateLimitToken } from './rate-limit';
+
+const request = (headers: Record<string, string> = {}) =>
+  new NextRequest('http://localhost/api/results', { headers });
+
+describe('clientKey', () => {
+  it('takes the address appended by the platform proxy by default', () => {
+    assert.equal(clientKey(request({ 'x-forwarded-for': '198.51.100.1, 203.0.113.7' })), '203.0.113.7');
+  });
+
+  it('skips as many entries as there are trusted proxies', () => {
+    const req = request({ 'x-forwarded-for': '198.51.100.1, 203.0.113.7, 10.0.0.2' });
+    assert.equal(clientKey(req, 2), '203.0.113.7');
+    assert.equal(clientKey(req, 5), '198.51.100.1');
+  });
+
+  it('falls back to X-Real-IP, then to the shared key', () => {
+    assert.equal(clientKey(request({ 'x-real-ip': '203.0.113.8' })), '203.0.113.8');
+    assert.equal(clientKey(request()), SHARED_CLIENT_KEY);
+  });
+
+  it('ignores the headers when no proxy is trusted', () => {
+    const req = request({ 'x-forwarded-for': '203.0.113.7', 'x-real-ip': '203.0.113.7' });
+    assert.equal(clientKey(req, 0), SHARED_CLIENT_KEY);
+  });
+});
+
+describe('takeRateLimitToken', () => {
+  let key = 0;
+  const nextKey = () => `client-${++key}`;
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: 0 });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it('allows 60 hall tickets a minute and refills over time', () => {
+    const client = nextKey();
+    for (let i = 0; i < 60; i++) {
+      assert.equal(takeRateLimitToken(client).allowed, true);
+    }
+    assert.deepEqual(takeRateLimitToken(client), { allowed: false, retryAfter: 1 });
+
+    mock.timers.tick(30_000);
+    assert.deepEqual(takeRateLimitToken(client, 30), { allowed: true, retryAfter: 0 });
+    assert.equal(takeRateLimitToken(client).allowed, false);
+  });
+
+  it('keeps clients apart', () => {
+    const first = nextKey();
+    assert.equal(takeRateLimitToken(first, 60).allowed, true);
+    assert.equal(takeRateLimitToken(first).allowed, false);
+    assert.equal(takeRateLimitToken(nextKey()).allowed, true);
+  });
+
+  it('lets a batch larger than the bucket through once and waits off the debt', () => {
+    const client = nextKey();
+    assert.deepEqual(takeRateLimitToken(client, 100), { allowed: true, retryAfter: 0 });
+
+    // 40 tokens in debt, so one more hall ticket needs 41 seconds of refill
+    assert.deepEqual(takeRateLimitToken(client), { allowed: false, retryAfter: 41 });
+    mock.timers.tick(40_000);
+    assert.equal(takeRateLimitToken(client).allowed, false);
+    mock.timers.tick(1_000);
+    assert.equal(takeRateLimitToken(client).allowed, true);
+  });
+
+  it('makes a batch larger than the bucket wait for a full bucket', () => {
+    const client = nextKey();
+    assert.equal(takeRateLimitToken(client, 10).allowed, true);
+    assert.deepEqual(takeRateLimitToken(client, 100), { allowed: false, retryAfter: 10 });
+
+    mock.timers.tick(10_000);
+    assert.equal(takeRateLimitToken(client, 100).allowed, true);
+  });
+});
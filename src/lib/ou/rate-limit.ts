@@ -0,0 +1,81 @@
+import type { NextRequest } from 'next/server';
+
+const REQUESTS_PER_MINUTE = parseInt(process.env.RESULTS_RATE_LIMIT_PER_MINUTE ?? '', 10) || 60;
+const REFILL_PER_MS = REQUESTS_PER_MINUTE / 60000;
+
+// How many reverse proxies in front of the app append to X-Forwarded-For.
+// Defaults to the one platform proxy of a Vercel deployment; with 0 the
+// header is ignored, since any client can send it.
+const TRUSTED_PROXIES = parseTrustedProxies(process.env.RESULTS_TRUSTED_PROXIES);
+
+// The bucket shared by every request whose address cannot be trusted
+export const SHARED_CLIENT_KEY = 'unknown';
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// In-memory, so limits are per server instance
+const buckets = new Map<string, Bucket>();
+
+function parseTrustedProxies(value: string | undefined): number {
+  const count = parseInt(value ?? '', 10);
+  return Number.isNaN(count) || count < 0 ? 1 : count;
+}
+
+/**
+ * Identifies the client for rate limiting. Behind RESULTS_TRUSTED_PROXIES
+ * proxies, that is the X-Forwarded-For entry the outermost trusted proxy
+ * appended (entries further left are client-supplied and ignored). With no
+ * trusted proxies, or when the header is missing, every request shares
+ * SHARED_CLIENT_KEY, which then works as one limit for the whole server.
+ */
+export function clientKey(req: NextRequest, trustedProxies = TRUSTED_PROXIES): string {
+  if (trustedProxies === 0) {
+    return SHARED_CLIENT_KEY;
+  }
+
+  const forwarded = (req.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean);
+  if (forwarded.length > 0) {
+    return forwarded[Math.max(forwarded.length - trustedProxies, 0)];
+  }
+  return req.headers.get('x-real-ip')?.trim() || SHARED_CLIENT_KEY;
+}
+
+/**
+ * Token bucket allowing RESULTS_RATE_LIMIT_PER_MINUTE hall tickets per
+ * client, with bursts up to the same amount. A request costs one token per
+ * hall ticket it fetches. A request costing more than a full bucket is let
+ * through once the bucket is full and leaves it in debt, so a large batch
+ * is not refused forever but the client waits it off before the next one.
+ * Otherwise reports how many seconds until enough tokens are back.
+ */
+export function takeRateLimitToken(key: string, cost = 1): { allowed: boolean; retryAfter: number } {
+  const now = Date.now();
+  const bucket = buckets.get(key) ?? { tokens: REQUESTS_PER_MINUTE, updatedAt: now };
+
+  bucket.tokens = Math.min(REQUESTS_PER_MINUTE, bucket.tokens + (now - bucket.updatedAt) * REFILL_PER_MS);
+  bucket.updatedAt = now;
+  buckets.set(key, bucket);
+
+  // Drop buckets that have fully refilled so the map does not grow forever
+  if (buckets.size > 10000) {
+    for (const [k, b] of buckets) {
+      if (b.tokens + (now - b.updatedAt) * REFILL_PER_MS >= REQUESTS_PER_MINUTE) {
+        buckets.delete(k);
+      }
+    }
+  }
+
+  const required = Math.min(cost, REQUESTS_PER_MINUTE);
+  if (bucket.tokens >= required) {
+    bucket.tokens -= cost;
+    return { allowed: true, retryAfter: 0 };
+  }
+
+  return { allowed: false, retryAfter: Math.ceil((required - bucket.tokens) / REFILL_PER_MS / 1000) };
+}
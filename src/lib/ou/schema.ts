@@ -0,0 +1,120 @@
+import { z } from 'zod';
+import { ERROR_CODES, type ApiError, type ResultErrorCode } from './errors';
+
+// The API contract shared by the routes, the browser client and the OpenAPI
+// document. Schemas with an `id` become named components in /api/openapi.
+
+export const ResultOutcomeSchema = z.enum(['passed', 'failed', 'promoted', 'absent', 'withheld']);
+
+export const SemesterResultSchema = z.object({
+  semester: z.string(),
+  sgpa: z.string().describe('The "Result with SGPA" cell as printed, e.g. "PASSED-8.52"'),
+  cgpa: z.string(),
+  outcome: ResultOutcomeSchema.nullable(),
+  sgpaValue: z.number().nullable(),
+  cgpaValue: z.number().nullable(),
+}).meta({ id: 'SemesterResult' });
+
+export const SubjectMarkSchema = z.object({
+  subCode: z.string(),
+  subjectName: z.string(),
+  credits: z.string(),
+  gradePoints: z.string(),
+  gradeSecurity: z.string(),
+  creditsValue: z.number().nullable(),
+  gradePointsValue: z.number().nullable(),
+  grade: z.string().nullable().describe('Normalised letter grade, "F" or "AB"'),
+}).meta({ id: 'SubjectMark' });
+
+export const LayoutIssueSchema = z.object({
+  section: z.enum(['personalDetails', 'marks', 'result']),
+  problem: z.enum(['missing', 'malformed']),
+  message: z.string(),
+}).meta({ id: 'LayoutIssue' });
+
+export const StudentResultSchema = z.object({
+  status: z.enum(['FOUND', 'NOT_FOUND']),
+  message: z.string().optional(),
+  personalDetails: z.object({
+    hallTicketNo: z.string(),
+    name: z.string(),
+    fatherName: z.string(),
+    gender: z.string(),
+    course: z.string(),
+  }).optional(),
+  marks: z.array(SubjectMarkSchema).optional(),
+  result: SemesterResultSchema.optional(),
+  history: z.array(SemesterResultSchema).optional(),
+  degraded: z.boolean().optional().describe('Set when the page did not have the expected layout; see layoutIssues'),
+  layoutIssues: z.array(LayoutIssueSchema).optional(),
+}).meta({ id: 'StudentResult' });
+
+export type ResultOutcome = z.infer<typeof ResultOutcomeSchema>;
+export type SemesterResult = z.infer<typeof SemesterResultSchema>;
+export type LayoutIssue = z.infer<typeof LayoutIssueSchema>;
+export type StudentResult = z.infer<typeof StudentResultSchema>;
+
+const HtnoSchema = z.string({ error: 'Hall ticket number is required' }).trim().regex(/^\d{12}$/, 'Hall ticket numbers must be exactly 12 digits');
+
+export const ResultRequestSchema = z.object({
+  url: z.string({ error: 'URL is required' }).min(1, 'URL is required'),
+  htno: HtnoSchema,
+  refresh: z.boolean().optional().describe('Bypass the result cache'),
+}).meta({ id: 'ResultRequest' });
+
+export const BatchRequestSchema = z.object({
+  url: z.string({ error: 'URL is required' }).min(1, 'URL is required'),
+  start: HtnoSchema.optional(),
+  end: HtnoSchema.optional(),
+  htnos: z.array(HtnoSchema).optional().describe('Used instead of start/end'),
+  concurrency: z.number().int().positive().optional().describe('Clamped to the server maximum'),
+  retries: z.number().int().min(0).optional().describe('Clamped to the server maximum'),
+  refresh: z.boolean().optional().describe('Bypass the result cache'),
+}).refine(
+  (body) => body.htnos !== undefined || (body.start !== undefined && body.end !== undefined),
+  'Either a start/end range or a list of hall ticket numbers is required'
+).meta({ id: 'BatchRequest', description: 'Either start and end (a range), or htnos (a list)' });
+
+export type ResultRequest = z.infer<typeof ResultRequestSchema>;
+export type BatchRequest = z.infer<typeof BatchRequestSchema>;
+
+export const ApiErrorSchema = z.object({
+  code: z.enum(Object.keys(ERROR_CODES) as [ResultErrorCode, ...ResultErrorCode[]]),
+  message: z.string(),
+  retryAfter: z.number().int().optional().describe('Seconds to wait before retrying'),
+}).meta({ id: 'ApiError' }) satisfies z.ZodType<ApiError>;
+
+export const ResultResponseSchema = z.object({
+  data: StudentResultSchema,
+  cached: z.boolean(),
+  status: z.literal(200),
+}).meta({ id: 'ResultResponse' });
+
+export const BatchLineSchema = z.union([
+  z.object({
+    htno: z.string(),
+    data: StudentResultSchema,
+    cached: z.boolean(),
+  }),
+  ApiErrorSchema.extend({ htno: z.string() }),
+]).meta({ id: 'BatchLine' });
+
+export type ResultResponse = z.infer<typeof ResultResponseSchema>;
+export type BatchLine = z.infer<typeof BatchLineSchema>;
+
+/**
+ * Turns a failed request validation into the API error to return: a bad
+ * hall ticket gets its own code, anything else is an invalid request.
+ */
+export function describeRequestError(error: z.ZodError): ApiError {
+  const issue = error.issues[0];
+  const field = issue?.path[0];
+  if (field === undefined && issue?.code === 'invalid_type') {
+    return { code: 'INVALID_REQUEST', message: 'Request body must be a JSON object' };
+  }
+  const isHtno = (field === 'htno' || field === 'htnos' || field === 'start' || field === 'end') && issue.code !== 'invalid_type';
+  return {
+    code: isHtno ? 'INVALID_HTNO' : 'INVALID_REQUEST',
+    message: issue?.message ?? 'Invalid request body',
+  };
+}
@@ -0,0 +1,167 @@
+import type { StudentResult } from './schema';
+import { decodeHtno, type HtnoParts } from './htno';
+import { DEFAULT_CODE_TABLE, type HtnoCodeTable } from './htno-codes';
+
+export interface SgpaBand {
+  label: string;
+  min: number;
+  max: number;
+  count: number;
+}
+
+export interface ClassSummary {
+  total: number;
+  appeared: number;
+  passed: number;
+  failed: number;
+  promoted: number;
+  absent: number;
+  withheld: number;
+  notFound: number;
+  passPercentage: number | null;
+  sgpaBands: SgpaBand[];
+  averageSgpa: number | null;
+  medianSgpa: number | null;
+  averageCgpa: number | null;
+  medianCgpa: number | null;
+  topStudents: StudentResult[];
+}
+
+// Upper bounds are exclusive except for the top band, which includes a perfect 10
+const SGPA_BANDS: Array<Omit<SgpaBand, 'count'>> = [
+  { label: '9 - 10', min: 9, max: 10 },
+  { label: '8 - 9', min: 8, max: 9 },
+  { label: '7 - 8', min: 7, max: 8 },
+  { label: '6 - 7', min: 6, max: 7 },
+  { label: 'Below 6', min: 0, max: 6 },
+];
+
+const TOP_STUDENT_COUNT = 10;
+
+function average(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Summarises a set of fetched results: outcome counts, pass percentage,
+ * SGPA distribution, averages/medians and the top students by SGPA.
+ * Absent students count towards the total but not towards "appeared".
+ */
+export function summarizeResults(results: StudentResult[]): ClassSummary {
+  const found = results.filter((result) => result.status === 'FOUND');
+  const countOutcome = (outcome: string) =>
+    found.filter((result) => result.result?.outcome === outcome).length;
+
+  const passed = countOutcome('passed');
+  const absent = countOutcome('absent');
+  const appeared = found.length - absent;
+
+  const sgpas = found
+    .map((result) => result.result?.sgpaValue)
+    .filter((value): value is number => value != null);
+  const cgpas = found
+    .map((result) => result.result?.cgpaValue)
+    .filter((value): value is number => value != null);
+
+  const sgpaBands = SGPA_BANDS.map((band, index) => ({
+    ...band,
+    count: sgpas.filter((sgpa) => sgpa >= band.min && (index === 0 ? sgpa <= band.max : sgpa < band.max)).length,
+  }));
+
+  const topStudents = found
+    .filter((result) => result.result?.sgpaValue != null)
+    .sort((a, b) =>
+      (b.result!.sgpaValue! - a.result!.sgpaValue!) ||
+      ((b.result!.cgpaValue ?? 0) - (a.result!.cgpaValue ?? 0))
+    )
+    .slice(0, TOP_STUDENT_COUNT);
+
+  return {
+    total: results.length,
+    appeared,
+    passed,
+    failed: countOutcome('failed'),
+    promoted: countOutcome('promoted'),
+    absent,
+    withheld: countOutcome('withheld'),
+    notFound: results.length - found.length,
+    passPercentage: appeared > 0 ? (passed / appeared) * 100 : null,
+    sgpaBands,
+    averageSgpa: average(sgpas),
+    medianSgpa: median(sgpas),
+    averageCgpa: average(cgpas),
+    medianCgpa: median(cgpas),
+    topStudents,
+  };
+}
+
+export type GroupBy = 'college' | 'branch' | 'college-branch';
+
+export interface ResultGroup {
+  key: string;
+  label: string;
+  results: StudentResult[];
+  summary: ClassSummary;
+}
+
+function describeGroup(parts: HtnoParts, by: GroupBy): { key: string; label: string } {
+  const college = parts.collegeName ? `${parts.collegeCode} - ${parts.collegeName}` : `College ${parts.collegeCode}`;
+  const branch = parts.branchName ? `${parts.branchCode} - ${parts.branchName}` : `Branch ${parts.branchCode}`;
+
+  switch (by) {
+    case 'college':
+      return { key: parts.collegeCode, label: college };
+    case 'branch':
+      return { key: parts.branchCode, label: branch };
+    case 'college-branch':
+      return { key: `${parts.collegeCode}-${parts.branchCode}`, label: `${college} / ${branch}` };
+  }
+}
+
+/**
+ * Groups results by the college and/or branch encoded in their hall ticket,
+ * with a summary per group for subtotals, named from `codes`. Results
+ * without a decodable hall ticket end up in a trailing "Unknown" group.
+ */
+export function groupResults(
+  results: StudentResult[],
+  by: GroupBy,
+  codes: HtnoCodeTable = DEFAULT_CODE_TABLE
+): ResultGroup[] {
+  const groups = new Map<string, { label: string; results: StudentResult[] }>();
+  const unknown: StudentResult[] = [];
+
+  for (const result of results) {
+    const parts = decodeHtno(result.personalDetails?.hallTicketNo ?? '', codes);
+    if (!parts) {
+      unknown.push(result);
+      continue;
+    }
+    const { key, label } = describeGroup(parts, by);
+    const group = groups.get(key) ?? { label, results: [] };
+    group.results.push(result);
+    groups.set(key, group);
+  }
+
+  const grouped = Array.from(groups.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, group]) => ({ key, ...group, summary: summarizeResults(group.results) }));
+
+  if (unknown.length > 0) {
+    grouped.push({ key: 'unknown', label: 'Unknown', results: unknown, summary: summarizeResults(unknown) });
+  }
+
+  return grouped;
+}
@@ -0,0 +1,70 @@
+const MAX_UPSTREAM_CONCURRENCY = parseInt(process.env.RESULTS_UPSTREAM_CONCURRENCY ?? '', 10) || 6;
+
+let active = 0;
+let pausedUntil = 0;
+const waiting: Array<() => void> = [];
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Thrown when the OU portal answers 429 or 503. Carries how long the portal
+ * asked us to wait (from its Retry-After header, or a default).
+ */
+export class UpstreamBusyError extends Error {
+  constructor(public status: number, public retryAfterMs: number) {
+    super(`Upstream busy! status: ${status}`);
+    this.name = 'UpstreamBusyError';
+  }
+}
+
+/**
+ * Parses a Retry-After header given either as seconds or as an HTTP date.
+ */
+export function parseRetryAfter(header: string | null, fallbackMs: number): number {
+  if (!header) {
+    return fallbackMs;
+  }
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(seconds, 0) * 1000;
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? fallbackMs : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Holds back every queued upstream request until `ms` from now. Used when
+ * the portal signals it is overloaded, so all callers back off together.
+ */
+export function pauseUpstream(ms: number): void {
+  pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+}
+
+/**
+ * Runs `task` once one of the process-wide upstream slots is free, so no
+ * more than RESULTS_UPSTREAM_CONCURRENCY requests hit the portal at a time
+ * no matter how many API requests are being served.
+ */
+export async function withUpstreamSlot<T>(task: () => Promise<T>): Promise<T> {
+  if (active >= MAX_UPSTREAM_CONCURRENCY) {
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  } else {
+    active++;
+  }
+
+  try {
+    const pause = pausedUntil - Date.now();
+    if (pause > 0) {
+      await sleep(pause);
+    }
+    return await task();
+  } finally {
+    const next = waiting.shift();
+    if (next) {
+      // Hand the slot straight to the next waiter
+      next();
+    } else {
+      active--;
+    }
+  }
+}
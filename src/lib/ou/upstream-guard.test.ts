@@ -0,0 +1,112 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+// The guard reads its settings when it loads, so they are set before importing
+// it. localhost is allowed here to reach the private address check.
+process.env.RESULTS_ALLOWED_HOSTS = 'osmania.ac.in,ouexams.in,localhost';
+delete process.env.RESULTS_MOCK_UPSTREAM;
+
+let guard: typeof import('./upstream-guard');
+
+before(async () => {
+  guard = await import('./upstream-guard');
+});
+
+describe('isPrivateAddress', () => {
+  it('flags private and reserved IPv4 addresses', () => {
+    for (const address of [
+      '0.0.0.0',
+      '10.1.2.3',
+      '100.64.0.1',
+      '127.0.0.1',
+      '169.254.169.254',
+      '172.16.0.1',
+      '172.31.255.255',
+      '192.168.1.1',
+      '198.18.0.1',
+      '198.19.255.255',
+      '224.0.0.1',
+      '255.255.255.255',
+    ]) {
+      assert.equal(guard.isPrivateAddress(address), true, address);
+    }
+  });
+
+  it('passes public IPv4 addresses', () => {
+    for (const address of ['8.8.8.8', '172.32.0.1', '198.20.0.1', '103.5.132.10']) {
+      assert.equal(guard.isPrivateAddress(address), false, address);
+    }
+  });
+
+  it('flags private IPv6 addresses', () => {
+    for (const address of ['::', '::1', 'fc00::1', 'fd12:3456::1', 'fe80::1', 'fe80::1%eth0', 'ff02::1']) {
+      assert.equal(guard.isPrivateAddress(address), true, address);
+    }
+  });
+
+  it('checks the IPv4 address embedded in IPv6', () => {
+    for (const address of [
+      '::ffff:127.0.0.1',
+      '::ffff:7f00:1',
+      '0:0:0:0:0:ffff:a9fe:a9fe',
+      '::127.0.0.1',
+      '::7f00:1',
+      '64:ff9b::7f00:1',
+      '64:ff9b::10.0.0.1',
+    ]) {
+      assert.equal(guard.isPrivateAddress(address), true, address);
+    }
+    assert.equal(guard.isPrivateAddress('::ffff:808:808'), false);
+    assert.equal(guard.isPrivateAddress('64:ff9b::8.8.8.8'), false);
+  });
+
+  it('passes public IPv6 addresses and host names', () => {
+    for (const address of ['2606:4700:4700::1111', '2001:4860:4860::8888', 'www.osmania.ac.in']) {
+      assert.equal(guard.isPrivateAddress(address), false, address);
+    }
+  });
+});
+
+describe('isAllowedHost', () => {
+  it('matches allowed hosts and their subdomains', () => {
+    assert.equal(guard.isAllowedHost('osmania.ac.in'), true);
+    assert.equal(guard.isAllowedHost('www.osmania.ac.in'), true);
+    assert.equal(guard.isAllowedHost('WWW.OUEXAMS.IN.'), true);
+  });
+
+  it('rejects look-alike hosts', () => {
+    assert.equal(guard.isAllowedHost('evilosmania.ac.in'), false);
+    assert.equal(guard.isAllowedHost('osmania.ac.in.evil.com'), false);
+    assert.equal(guard.isAllowedHost('127.0.0.1'), false);
+  });
+});
+
+describe('checkUpstreamUrl', () => {
+  it('rejects URLs that are not http or https', async () => {
+    assert.equal((await guard.checkUpstreamUrl('not a url'))?.code, 'INVALID_URL');
+    assert.equal((await guard.checkUpstreamUrl('file:///etc/passwd'))?.code, 'INVALID_URL');
+    assert.equal((await guard.checkUpstreamUrl('ftp://www.osmania.ac.in/results'))?.code, 'INVALID_URL');
+  });
+
+  it('rejects redirect targets off the allowed hosts', async () => {
+    for (const url of [
+      'http://169.254.169.254/latest/meta-data/',
+      'http://[::ffff:127.0.0.1]/',
+      'http://[::127.0.0.1]/',
+      'http://[64:ff9b::7f00:1]/',
+      'http://0x7f.1/',
+      'https://results.example.com/',
+    ]) {
+      const rejection = await guard.checkUpstreamUrl(url);
+      assert.equal(rejection?.code, 'HOST_NOT_ALLOWED', url);
+      assert.match(rejection?.message ?? '', /is not allowed/);
+    }
+  });
+
+  it('rejects an allowed host that resolves to a private address', async () => {
+    assert.deepEqual(await guard.checkUpstreamUrl('http://localhost:3000/api/mock-ou'), {
+      code: 'HOST_NOT_ALLOWED',
+      message: 'Results host "localhost" resolves to a private address',
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import { lookup as lookupCallback, type LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import type { ResultErrorCode } from './errors';
+
+// OU publishes results on its own domains; extend with RESULTS_ALLOWED_HOSTS
+// (comma-separated) when a results page moves somewhere else.
+const DEFAULT_ALLOWED_HOSTS = ['osmania.ac.in', 'ouexams.in'];
+
+const ALLOWED_HOSTS = (process.env.RESULTS_ALLOWED_HOSTS || DEFAULT_ALLOWED_HOSTS.join(','))
+  .split(',')
+  .map((host) => host.trim().toLowerCase())
+  .filter(Boolean);
+
+// RESULTS_MOCK_UPSTREAM=1 serves the mock portal at /api/mock-ou and lets the
+// API fetch from this machine. Never honoured in production builds.
+export const MOCK_UPSTREAM_ENABLED =
+  process.env.RESULTS_MOCK_UPSTREAM === '1' && process.env.NODE_ENV !== 'production';
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '::1'];
+
+/**
+ * Matches an allowed host exactly or any of its subdomains, so
+ * "osmania.ac.in" also covers "www.osmania.ac.in".
+ */
+export function isAllowedHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  return ALLOWED_HOSTS.some((allowed) => host === allowed || host.endsWith(`.${allowed}`));
+}
+
+// Loopback, private, link-local, shared, documentation, benchmarking,
+// multicast and reserved ranges: nothing a public results portal lives on
+const PRIVATE_IPV4 = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_IPV4.addSubnet(network, prefix, 'ipv4');
+}
+
+// ::/96 covers the unspecified and loopback addresses and the deprecated
+// IPv4-compatible form (::127.0.0.1)
+const PRIVATE_IPV6 = new BlockList();
+for (const [network, prefix] of [
+  ['::', 96],
+  ['64:ff9b:1::', 48],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['fec0::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_IPV6.addSubnet(network, prefix, 'ipv6');
+}
+
+// IPv4-mapped and NAT64 addresses reach the IPv4 address in their last 32 bits
+const IPV4_EMBEDDING = new BlockList();
+IPV4_EMBEDDING.addSubnet('::ffff:0:0', 96, 'ipv6');
+IPV4_EMBEDDING.addSubnet('64:ff9b::', 96, 'ipv6');
+
+/**
+ * The IPv4 address in the last 32 bits of an IPv6 address, written either
+ * dotted (::ffff:127.0.0.1) or in hex as WHATWG URL prints it (::ffff:7f00:1).
+ */
+function embeddedIpv4(address: string): string {
+  const dotted = address.match(/\d+\.\d+\.\d+\.\d+$/);
+  if (dotted) {
+    return dotted[0];
+  }
+  // An empty group comes from "::" and stands for zeros
+  const [high, low] = address.split(':').slice(-2).map((group) => parseInt(group || '0', 16));
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+}
+
+/**
+ * True for loopback, private, link-local and other non-public addresses,
+ * including IPv4 addresses embedded in IPv6 (mapped, IPv4-compatible and
+ * NAT64). Anything that is not an IP address is not private.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/%.*$/, '');
+  switch (isIP(ip)) {
+    case 4:
+      return PRIVATE_IPV4.check(ip, 'ipv4');
+    case 6:
+      return IPV4_EMBEDDING.check(ip, 'ipv6')
+        ? isPrivateAddress(embeddedIpv4(ip))
+        : PRIVATE_IPV6.check(ip, 'ipv6');
+    default:
+      return false;
+  }
+}
+
+// The error code of a connection refused by lookupPublicAddress
+export const PRIVATE_ADDRESS_ERROR = 'ERR_UPSTREAM_PRIVATE_ADDRESS';
+
+/**
+ * A DNS lookup for the upstream connection that fails when the host resolves
+ * to a private address. checkUpstreamUrl resolves the host once up front;
+ * this checks the address actually dialled, so a DNS answer that changes in
+ * between (DNS rebinding) cannot reach a private address.
+ */
+export const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    const allowLoopback = MOCK_UPSTREAM_ENABLED && LOOPBACK_HOSTS.includes(hostname.toLowerCase());
+    if (!allowLoopback && addresses.some(({ address }) => isPrivateAddress(address))) {
+      const rejection: NodeJS.ErrnoException = new Error(`Results host "${hostname}" resolves to a private address`);
+      rejection.code = PRIVATE_ADDRESS_ERROR;
+      callback(rejection, '');
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+export interface UpstreamRejection {
+  code: Extract<ResultErrorCode, 'INVALID_URL' | 'HOST_NOT_ALLOWED'>;
+  message: string;
+}
+
+/**
+ * Checks that a results URL may be fetched: http(s) only, on an allowed host,
+ * and not resolving to a private or loopback address. With the mock upstream
+ * enabled, loopback hosts are allowed as well.
+ * Returns why it was rejected, or null when it is fine.
+ */
+export async function checkUpstreamUrl(url: string): Promise<UpstreamRejection | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return { code: 'INVALID_URL', message: 'Invalid URL format' };
+  }
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return { code: 'INVALID_URL', message: 'Only http and https result URLs are supported' };
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (MOCK_UPSTREAM_ENABLED && LOOPBACK_HOSTS.includes(hostname.toLowerCase())) {
+    return null;
+  }
+
+  if (!isAllowedHost(hostname)) {
+    return { code: 'HOST_NOT_ALLOWED', message: `Results host "${hostname}" is not allowed` };
+  }
+
+  try {
+    const addresses = isIP(hostname)
+      ? [{ address: hostname }]
+      : await lookup(hostname, { all: true });
+    if (addresses.some(({ address }) => isPrivateAddress(address))) {
+      return { code: 'HOST_NOT_ALLOWED', message: `Results host "${hostname}" resolves to a private address` };
+    }
+  } catch {
+    // Let the fetch itself report DNS failures as network errors
+  }
+
+  return null;
+}
@@ -0,0 +1,80 @@
+import { readFileSync } from 'fs';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+// The guard reads its settings when it loads, so they are set before importing
+// it. Mock mode lets the test portal run on loopback; the mapped form of
+// 127.0.0.1 is allowed as a host so a redirect to it reaches the address check.
+process.env.RESULTS_MOCK_UPSTREAM = '1';
+process.env.RESULTS_ALLOWED_HOSTS = 'osmania.ac.in,::ffff:7f00:1';
+
+const page = readFileSync(path.join(__dirname, 'fixtures', 'found.html'), 'utf8');
+
+let upstream: typeof import('./upstream');
+let server: Server;
+let base: string;
+
+// Where each path of the test portal redirects to; any other path serves the found page
+const redirects = (port: number): Record<string, [number, string]> => ({
+  '/moved': [303, '/page'],
+  '/metadata': [302, 'http://169.254.169.254/latest/meta-data/'],
+  '/mapped': [302, `http://[::ffff:127.0.0.1]:${port}/page`],
+  '/elsewhere': [307, 'https://results.example.com/'],
+  '/loop': [302, '/loop'],
+});
+
+before(async () => {
+  upstream = await import('./upstream');
+  server = createServer((req, res) => {
+    const redirect = redirects((server.address() as AddressInfo).port)[req.url ?? ''];
+    if (redirect) {
+      res.writeHead(redirect[0], { Location: redirect[1] }).end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'text/html' }).end(page);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+describe('fetchStudentResult redirects', () => {
+  it('follows a redirect that stays on an allowed host', async () => {
+    const result = await upstream.fetchStudentResult(`${base}/moved`, '245521733150');
+    assert.equal(result.status, 'FOUND');
+    assert.equal(result.personalDetails?.hallTicketNo, '245521733150');
+  });
+
+  it('refuses a redirect to a host that is not allowed', async () => {
+    await assert.rejects(upstream.fetchStudentResult(`${base}/metadata`, '245521733150'), {
+      name: 'ResultError',
+      code: 'HOST_NOT_ALLOWED',
+      message: /redirected to a disallowed address\. Results host "169\.254\.169\.254" is not allowed/,
+    });
+    await assert.rejects(upstream.fetchStudentResult(`${base}/elsewhere`, '245521733150'), {
+      name: 'ResultError',
+      code: 'HOST_NOT_ALLOWED',
+    });
+  });
+
+  it('refuses a redirect to an allowed host at a private address', async () => {
+    await assert.rejects(upstream.fetchStudentResult(`${base}/mapped`, '245521733150'), {
+      name: 'ResultError',
+      code: 'HOST_NOT_ALLOWED',
+      message: /Results host "::ffff:7f00:1" resolves to a private address/,
+    });
+  });
+
+  it('gives up after too many redirects', async () => {
+    await assert.rejects(upstream.fetchStudentResult(`${base}/loop`, '245521733150'), {
+      name: 'ResultError',
+      code: 'UPSTREAM_HTTP_ERROR',
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import { Agent, fetch } from 'undici';
+import { saveLayoutDiagnostic } from './diagnostics';
+import { ResultError, type ResultErrorCode } from './errors';
+import { parseResultPage } from './parser';
+import type { StudentResult } from './schema';
+import { UpstreamBusyError, parseRetryAfter, pauseUpstream, withUpstreamSlot } from './throttle';
+import { PRIVATE_ADDRESS_ERROR, checkUpstreamUrl, lookupPublicAddress } from './upstream-guard';
+import { alternateUrl } from './urls';
+
+const UPSTREAM_TIMEOUT_MS = 20000;
+const RETRY_BASE_DELAY_MS = 1000;
+const DEFAULT_BUSY_PAUSE_MS = 5000;
+const MAX_REDIRECTS = 5;
+
+// The OU portal regularly serves expired or incomplete certificate chains.
+// Certificate checks are relaxed for upstream result requests only, instead
+// of disabling them for the whole process. Every connection resolves its host
+// through the guard, so it can only dial public addresses.
+const upstreamAgent = new Agent({
+  connect: { rejectUnauthorized: false, lookup: lookupPublicAddress },
+});
+
+const UPSTREAM_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.5',
+  'Connection': 'keep-alive',
+  'Upgrade-Insecure-Requests': '1',
+};
+
+/**
+ * Posts the search form, following redirects by hand so that every hop goes
+ * through checkUpstreamUrl; fetch would otherwise follow an allowed host's
+ * redirect anywhere. 301/302/303 continue with a GET, as browsers do;
+ * 307/308 repeat the POST.
+ */
+async function postToUpstream(url: string, body: string, signal: AbortSignal) {
+  let target = url;
+  let method = 'POST';
+
+  for (let redirects = 0; ; redirects++) {
+    const response = await fetch(target, {
+      method,
+      headers: method === 'POST'
+        ? { ...UPSTREAM_HEADERS, 'Content-Type': 'application/x-www-form-urlencoded' }
+        : UPSTREAM_HEADERS,
+      body: method === 'POST' ? body : undefined,
+      signal,
+      dispatcher: upstreamAgent,
+      redirect: 'manual',
+    });
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+    await response.body?.cancel();
+
+    if (redirects >= MAX_REDIRECTS) {
+      throw new ResultError('UPSTREAM_HTTP_ERROR', 'The results portal redirected too many times.');
+    }
+    target = new URL(location, target).toString();
+    const rejection = await checkUpstreamUrl(target);
+    if (rejection) {
+      throw new ResultError(rejection.code, `The results portal redirected to a disallowed address. ${rejection.message}`);
+    }
+    if (response.status !== 307 && response.status !== 308) {
+      method = 'GET';
+    }
+  }
+}
+
+export const DEFAULT_RETRIES = 2;
+export const MAX_RETRIES = 5;
+
+/**
+ * Posts a hall ticket number to an OU results page and parses the response.
+ * Aborting `signal` cancels the request, or skips it if it is still queued.
+ */
+export async function fetchStudentResult(url: string, htno: string, signal?: AbortSignal): Promise<StudentResult> {
+  const rejection = await checkUpstreamUrl(url);
+  if (rejection) {
+    throw new ResultError(rejection.code, rejection.message);
+  }
+
+  const formData = new URLSearchParams();
+  formData.append("mbstatus", "SEARCH");
+  formData.append("htno", htno);
+
+  return withUpstreamSlot(async () => {
+    signal?.throwIfAborted();
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => {
+      controller.abort();
+    }, UPSTREAM_TIMEOUT_MS);
+
+    try {
+      const requestSignal = signal ? AbortSignal.any([controller.signal, signal]) : controller.signal;
+      const response = await postToUpstream(url, formData.toString(), requestSignal);
+
+      // The portal is overloaded: make every queued request wait it out
+      if (response.status === 429 || response.status === 503) {
+        const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'), DEFAULT_BUSY_PAUSE_MS);
+        pauseUpstream(retryAfterMs);
+        throw new UpstreamBusyError(response.status, retryAfterMs);
+      }
+
+      if (!response.ok) {
+        throw new ResultError('UPSTREAM_HTTP_ERROR', `The results portal responded with HTTP ${response.status}.`);
+      }
+
+      const html = await response.text();
+      const result = parseResultPage(html, htno);
+      if (result.degraded) {
+        const file = await saveLayoutDiagnostic(url, htno, html, result.layoutIssues ?? []);
+        console.warn(`Result page for ${htno} does not match the expected layout${file ? `; saved to ${file}` : ''}`);
+      }
+      return result;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  });
+}
+
+export async function fetchStudentResultWithFallback(url: string, htno: string, signal?: AbortSignal): Promise<StudentResult> {
+  try {
+    return await fetchStudentResult(url, htno, signal);
+  } catch (e) {
+    const fallbackUrl = alternateUrl(url);
+    // Both hosts are the same portal, so a busy answer applies to either
+    if (fallbackUrl === url || e instanceof UpstreamBusyError || signal?.aborted) {
+      throw e;
+    }
+    return fetchStudentResult(fallbackUrl, htno, signal);
+  }
+}
+
+// Resolves early when `signal` aborts, so a cancelled retry does not sit out its backoff
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve) => {
+  const wake = () => {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', wake);
+    resolve();
+  };
+  const timeoutId = setTimeout(wake, ms);
+  signal?.addEventListener('abort', wake);
+});
+
+/**
+ * Retries the www/non-www fetch with exponential backoff (1s, 2s, 4s, ...),
+ * waiting at least as long as the portal's Retry-After when it reports busy,
+ * and rethrows the last error once `retries` extra attempts are used up or
+ * `signal` is aborted.
+ */
+export async function fetchStudentResultWithRetry(
+  url: string,
+  htno: string,
+  retries: number = DEFAULT_RETRIES,
+  signal?: AbortSignal
+): Promise<StudentResult> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetchStudentResultWithFallback(url, htno, signal);
+    } catch (e) {
+      if (attempt >= retries || signal?.aborted) {
+        throw e;
+      }
+      const backoff = RETRY_BASE_DELAY_MS * 2 ** attempt;
+      await sleep(e instanceof UpstreamBusyError ? Math.max(backoff, e.retryAfterMs) : backoff, signal);
+      signal?.throwIfAborted();
+    }
+  }
+}
+
+/**
+ * Maps an upstream failure to the error code and message the API reports,
+ * plus the Retry-After (in seconds) to send when the portal is busy.
+ */
+export function describeFetchError(e: any): { code: ResultErrorCode; message: string; retryAfter?: number } {
+  if (e instanceof ResultError) {
+    return { code: e.code, message: e.message };
+  }
+
+  if (e instanceof UpstreamBusyError) {
+    return {
+      code: 'UPSTREAM_BUSY',
+      message: "The results portal is busy. Please try again shortly.",
+      retryAfter: Math.ceil(e.retryAfterMs / 1000),
+    };
+  }
+
+  if (e?.cause?.code === PRIVATE_ADDRESS_ERROR) {
+    return { code: 'HOST_NOT_ALLOWED', message: e.cause.message };
+  }
+
+  if (e?.name === 'AbortError') {
+    return { code: 'UPSTREAM_TIMEOUT', message: "Request timed out. Please try again later." };
+  }
+
+  if (e?.message?.includes('fetch failed') || e?.message?.includes('network')) {
+    return { code: 'UPSTREAM_NETWORK_ERROR', message: "Network error. Please check your connection and try again." };
+  }
+
+  return { code: 'INTERNAL_ERROR', message: "Unable to fetch results. Please try again later." };
+}
@@ -0,0 +1,7 @@
+/**
+ * Returns the same URL with the "www." prefix toggled, since the OU portal
+ * is only reachable on one of the two hosts depending on the day.
+ */
+export function alternateUrl(url: string): string {
+  return url.includes('www.') ? url.replace('www.', '') : url.replace('https://', 'https://www.');
+}
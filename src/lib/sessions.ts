@@ -0,0 +1,80 @@
+import type { ResultErrorCode } from '@/lib/ou/errors';
+import type { StudentResult } from '@/lib/ou/schema';
+
+export interface FetchSession {
+  id: string;
+  name: string;
+  url: string;
+  // Every hall ticket the run asked for, in order
+  htnos: string[];
+  // Hall tickets that have a row in `results` (FOUND or NOT_FOUND)
+  fetchedHtnos: string[];
+  results: StudentResult[];
+  // `code` is missing on sessions saved before the API reported error codes
+  failures: Array<{ htno: string; code?: ResultErrorCode; message: string }>;
+  // 'interrupted' when the stream stopped early; the hall tickets it never
+  // reached were then added to `failures`
+  status: 'running' | 'complete' | 'interrupted';
+  createdAt: string;
+  updatedAt: string;
+}
+
+const DB_NAME = 'ou-results';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * All saved sessions, most recently updated first.
+ */
+export async function listSessions(): Promise<FetchSession[]> {
+  const sessions = await withStore<FetchSession[]>('readonly', (store) => store.getAll());
+  return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function putSession(session: FetchSession): Promise<void> {
+  await withStore('readwrite', (store) => store.put({ ...session, updatedAt: new Date().toISOString() }));
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+}
+
+/**
+ * Hall tickets of a session that still need fetching: neither fetched nor
+ * recorded as failed.
+ */
+export function remainingHtnos(session: FetchSession): string[] {
+  const done = new Set([...session.fetchedHtnos, ...session.failures.map((failure) => failure.htno)]);
+  return session.htnos.filter((htno) => !done.has(htno));
+}
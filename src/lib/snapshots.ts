@@ -0,0 +1,28 @@
+import type { StudentResult } from '@/lib/ou/schema';
+
+export interface ResultSnapshot {
+  id: string;
+  name: string;
+  url: string;
+  createdAt: string;
+  results: StudentResult[];
+}
+
+const STORAGE_KEY = 'ou-results:snapshots';
+
+export function loadSnapshots(): ResultSnapshot[] {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveSnapshots(snapshots: ResultSnapshot[]): void {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(snapshots));
+}